@@ -5,6 +5,8 @@ export default defineConfig({
   out: './drizzle',
   schema: './src/lib/db/schema.ts',
   dialect: 'turso',
+  // The messages_fts search index is managed in src/lib/db/messages-fts.ts
+  tablesFilter: ['!messages_fts*'],
   dbCredentials: {
     url: process.env.TURSO_DATABASE_URL as string,
     authToken: process.env.TURSO_AUTH_TOKEN as string,
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import db from '$lib/db/db.server';
+import { buddyListVersions } from '$lib/buddyListVersions';
+
+vi.mock('$lib/db/db.server', async () => {
+	const { createClient } = await import('@libsql/client');
+	const { drizzle } = await import('drizzle-orm/libsql');
+	return { default: drizzle(createClient({ url: ':memory:' })) };
+});
+
+describe('buddyListVersions', () => {
+	beforeEach(async () => {
+		await db.run(sql`drop table if exists users`);
+		await db.run(sql`create table users (id text primary key, buddy_list_version integer not null default 0)`);
+		await db.run(sql`insert into users (id, buddy_list_version) values ('alice', 0), ('bob', 7)`);
+	});
+
+	it('reads the stored versions and skips unknown users', async () => {
+		const versions = await buddyListVersions.current(['alice', 'bob', 'nobody']);
+		expect(versions).toEqual(new Map([['alice', 0], ['bob', 7]]));
+	});
+
+	it('chains each new version to the previous one', async () => {
+		const first = await buddyListVersions.next(['alice', 'bob']);
+		expect(first.get('alice')).toEqual({ version: 1, previousVersion: 0 });
+		expect(first.get('bob')).toEqual({ version: 8, previousVersion: 7 });
+
+		const second = await buddyListVersions.next(['bob']);
+		expect(second).toEqual(new Map([['bob', { version: 9, previousVersion: 8 }]]));
+		expect(await buddyListVersions.current(['alice', 'bob'])).toEqual(new Map([['alice', 1], ['bob', 9]]));
+	});
+
+	it('does not query for an empty list of users', async () => {
+		const select = vi.spyOn(db, 'select');
+		const update = vi.spyOn(db, 'update');
+		expect(await buddyListVersions.current([])).toEqual(new Map());
+		expect(await buddyListVersions.next([])).toEqual(new Map());
+		expect(select).not.toHaveBeenCalled();
+		expect(update).not.toHaveBeenCalled();
+	});
+});
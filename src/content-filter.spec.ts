@@ -0,0 +1,69 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+import type { ContentRule, ContentRuleAction, ContentRuleKind } from '$lib/types/chat';
+import { applyContentFilter, invalidateContentRules } from '$lib/utils/content-filter.server';
+
+// The rules are the only thing read from the database
+const { storedRules } = vi.hoisted(() => ({ storedRules: [] as ContentRule[] }));
+vi.mock('$lib/db/db.server', () => ({
+	default: { select: () => ({ from: () => ({ orderBy: async () => storedRules }) }) }
+}));
+
+function setRules(...rules: [ContentRuleKind, string, ContentRuleAction, boolean?][]) {
+	storedRules.splice(0, storedRules.length, ...rules.map(([kind, value, action, enabled = true], i) => ({
+		id: `rule-${i}`,
+		kind,
+		value,
+		action,
+		enabled,
+		createdBy: 'admin',
+		createdAt: i
+	})));
+	invalidateContentRules();
+}
+
+describe('applyContentFilter', () => {
+	beforeEach(() => setRules());
+
+	it('masks blocked words only as whole words, whatever their case', async () => {
+		setRules(['blockedWord', 'zut', 'mask']);
+		expect((await applyContentFilter('Zut alors, zutique')).content).toBe('*** alors, zutique');
+	});
+
+	it('rejects on the first rejecting rule and ignores disabled rules', async () => {
+		setRules(['blockedWord', 'spam', 'reject', false], ['regex', '\\d{4} \\d{4}', 'reject']);
+		expect((await applyContentFilter('spam')).rejectedBy).toBeUndefined();
+		expect((await applyContentFilter('card 1234 5678')).rejectedBy?.id).toBe('rule-1');
+	});
+
+	it('collects flagging rules without changing the content', async () => {
+		setRules(['blockedWord', 'arnaque', 'flag'], ['caps', '70', 'flag']);
+		const result = await applyContentFilter('CECI EST UNE ARNAQUE');
+		expect(result.content).toBe('CECI EST UNE ARNAQUE');
+		expect(result.flaggedBy.map(rule => rule.id)).toEqual(['rule-0', 'rule-1']);
+	});
+
+	it('masks the links beyond the allowed number and the blocked domains, subdomains included', async () => {
+		setRules(['maxLinks', '1', 'mask'], ['blockedDomain', 'bad.example', 'mask']);
+		const result = await applyContentFilter('https://a.test https://www.bad.example/x https://b.test');
+		expect(result.content).toBe('https://a.test [lien masqué] [lien masqué]');
+	});
+
+	it('masks links outside of the allowed domains with the strictest allow rule action', async () => {
+		setRules(['allowedDomain', 'good.example', 'mask'], ['allowedDomain', 'docs.example', 'flag']);
+		const result = await applyContentFilter('see https://good.example and www.other.example');
+		expect(result.content).toBe('see https://good.example and [lien masqué]');
+		expect(result.flaggedBy).toEqual([]);
+	});
+
+	it('shortens repeated characters and lowers shouted messages', async () => {
+		setRules(['repeatedChars', '3', 'mask'], ['caps', '80', 'mask']);
+		expect((await applyContentFilter('nooooon')).content).toBe('nooon');
+		expect((await applyContentFilter('ARRETEZ DE CRIER SVP')).content).toBe('arretez de crier svp');
+		expect((await applyContentFilter('OK LOL')).content).toBe('OK LOL');
+	});
+
+	it('skips invalid patterns', async () => {
+		setRules(['regex', '(', 'reject']);
+		expect(await applyContentFilter('anything')).toEqual({ content: 'anything', flaggedBy: [] });
+	});
+});
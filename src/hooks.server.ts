@@ -4,8 +4,9 @@ import { handleRateLimit } from "$lib/api/rate-limiter";
 import { users } from "$lib/db/schema";
 import { createLogger } from "$lib/utils/logger.server";
 import { ensureDefaultChatRoom } from "$lib/utils/chat.server";
-import { validateSessionToken } from "$lib/api/session.server";
+import { purgeExpiredLoginData, startExpiredSessionPurge, validateSessionToken } from "$lib/api/session.server";
 import { setSessionTokenCookie, deleteSessionTokenCookie } from "$lib/api/session.cookie";
+import { ensureConfiguredAdmins, ensureIpHashSecret, getActiveBan, hashIp } from "$lib/utils/moderation.server";
 
 const log = createLogger('hooks-server');
 
@@ -24,8 +25,12 @@ async function setAllUsersOffline() {
 Promise.resolve()
     .then(async () => {
         log.info('Initializing server...');
+        ensureIpHashSecret();
         await ensureDefaultChatRoom(db);
         await setAllUsersOffline();
+        await ensureConfiguredAdmins();
+        await purgeExpiredLoginData();
+        startExpiredSessionPurge();
         log.info('Server initialized successfully');
     })
     .catch((error: unknown) => {
@@ -38,13 +43,20 @@ export const handle: Handle = async ({ event, resolve }) => {
     
     // Get session token from cookies
     const token = event.cookies.get("session") ?? null;
+    // Only API calls and authenticated page loads are checked against bans, other pages show nothing to refuse
+    const isApiRequest = event.url.pathname.startsWith('/api');
+    const ipHash = isApiRequest || token ? await hashIp(event.getClientAddress()) : undefined;
 
-    // Validate session token if token exists
+    // Validate session token if token exists, recording where the session is used from
     if (token) {
-        const { session, user } = await validateSessionToken(token);
+        const { session, user } = await validateSessionToken(token, {
+            userAgent: event.request.headers.get('user-agent'),
+            ipHash
+        });
         if (session) {
             log.debug("Valid session found", { user: user?.nickname });
-            setSessionTokenCookie(event, token, session.expiresAt);
+            // Sliding expiration may have moved expiresAt, the cookie follows
+            setSessionTokenCookie(event, token, session.expiresAt, session.isPersistent);
             event.locals.session = session;
             event.locals.user = user;
         } else {
@@ -55,6 +67,25 @@ export const handle: Handle = async ({ event, resolve }) => {
         }
     }
 
+    // Refuse requests from banned users and IP addresses
+    const ban = ipHash ? await getActiveBan({
+        userId: event.locals.user?.id,
+        ipHash
+    }) : undefined;
+    if (ban) {
+        log.warn("Request from banned user or IP refused", { path: event.url.pathname, sanctionId: ban.id });
+        if (event.locals.session) {
+            deleteSessionTokenCookie(event);
+        }
+        const body = isApiRequest
+            ? JSON.stringify({ success: false, error: 'You are banned', bannedUntil: ban.expiresAt ?? undefined })
+            : 'Accès refusé : vous avez été banni.';
+        return new Response(body, {
+            status: 403,
+            headers: { 'Content-Type': isApiRequest ? 'application/json' : 'text/plain; charset=utf-8' }
+        });
+    }
+
     // Identify public chat and room requests if there is no valid session
     const isPublicChatRequest = event.url.pathname.startsWith('/api/chat/messages') && event.request.method === 'GET';
     const isPublicRoomRequest = event.url.pathname.startsWith('/api/rooms/') && event.request.method === 'GET';
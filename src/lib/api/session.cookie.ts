@@ -23,8 +23,9 @@ function getCookieDomain(): string | undefined {
     return undefined;
 }
 
-export function setSessionTokenCookie({ cookies }: { cookies: Cookies }, token: string, expiresAt: number): void {
-    log.debug("Setting session cookie with expiry:", new Date(expiresAt));
+// Cookies of sessions that are not persistent have no expiry, so they end with the browser
+export function setSessionTokenCookie({ cookies }: { cookies: Cookies }, token: string, expiresAt: number, isPersistent = true): void {
+    log.debug("Setting session cookie with expiry:", { expiresAt: new Date(expiresAt), isPersistent });
     
     const domain = getCookieDomain();
     log.debug("Setting cookie for domain:", { domain });
@@ -34,7 +35,7 @@ export function setSessionTokenCookie({ cookies }: { cookies: Cookies }, token:
         sameSite: "lax",
         secure: process.env.NODE_ENV === 'production',
         domain, 
-        expires: new Date(expiresAt),
+        expires: isPersistent ? new Date(expiresAt) : undefined,
         path: "/"
     });
 }
@@ -1,11 +1,30 @@
+import { env } from '$env/dynamic/private';
 import db from '../db/db.server';
 import { sessions, users } from '../db/schema';
-import { eq } from 'drizzle-orm';
-import type { Session, User } from '../types/chat';
+import { and, desc, eq, lt, ne } from 'drizzle-orm';
+import type { Session, SessionSummary, User } from '../types/chat';
 import { createLogger } from '../utils/logger.server';
+import { sseEmitter } from '../sseEmitter';
+import { purgeOldLoginFailures } from '../utils/login-protection.server';
 
 const log = createLogger('session-server');
 
+const HOUR = 60 * 60 * 1000;
+// Lifetime of "remember me" sessions, and of the others which also end with the browser
+const LONG_SESSION_LIFETIME = (parseInt(env.SESSION_LIFETIME_DAYS ?? '', 10) || 30) * 24 * HOUR;
+const SHORT_SESSION_LIFETIME = (parseInt(env.SESSION_SHORT_LIFETIME_HOURS ?? '', 10) || 24) * HOUR;
+const EXPIRED_SESSIONS_PURGE_INTERVAL = HOUR;
+
+// lastUsedAt is only written when older than this, so every request does not cost a write
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000;
+const MAX_USER_AGENT_LENGTH = 300;
+
+// Where a session is used from, stored to let users recognize their sessions
+export interface SessionMetadata {
+  userAgent?: string | null;
+  ipHash?: string | null;
+}
+
 // Helper: Compute SHA-256 hash of a message and encode it as a hex string.
 export async function sha256(message: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -48,21 +67,30 @@ export function generateSessionToken(): string {
   return token;
 }
 
+function sessionLifetime(isPersistent: boolean): number {
+  return isPersistent ? LONG_SESSION_LIFETIME : SHORT_SESSION_LIFETIME;
+}
+
 // Create a session record once a valid token is available.
-// The session ID is the SHA-256 hash of the token.
-export async function createSession(token: string, userId: string): Promise<Session> {
-  log.debug("Creating session", { userId });
+// The session ID is the SHA-256 hash of the token. Persistent sessions are the "remember me" ones.
+export async function createSession(token: string, userId: string, metadata: SessionMetadata = {}, isPersistent = false): Promise<Session> {
+  log.debug("Creating session", { userId, isPersistent });
   const sessionId = await sha256(token);
   const createdAt = Date.now();
-  const expiresAt = createdAt + 7 * 24 * 60 * 60 * 1000; // 7 days expiry
-  await db.insert(sessions).values({
+  const expiresAt = createdAt + sessionLifetime(isPersistent);
+  const session: Session = {
     id: sessionId,
     userId,
     createdAt,
     expiresAt,
-  });
+    isPersistent,
+    lastUsedAt: createdAt,
+    userAgent: metadata.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+    ipHash: metadata.ipHash ?? null,
+  };
+  await db.insert(sessions).values(session);
   log.debug("Session created", { sessionId });
-  return { id: sessionId, userId, createdAt, expiresAt };
+  return session;
 }
 
 /**
@@ -75,7 +103,9 @@ export type SessionValidationResult =
   | { session: null; user: null };
 
 // Validate a session token by converting it to its SHA‑256 hash, checking expiration, and fetching the user.
-export async function validateSessionToken(token: string): Promise<SessionValidationResult> {
+// Sessions used past half their lifetime are extended (sliding expiration).
+// When given, the request metadata is recorded on the session along with its last use.
+export async function validateSessionToken(token: string, metadata?: SessionMetadata): Promise<SessionValidationResult> {
   log.debug("Validating session token");
   const sessionId = await sha256(token);
   const session = await db.query.sessions.findFirst({
@@ -97,10 +127,54 @@ export async function validateSessionToken(token: string): Promise<SessionValida
     log.debug("User not found for session", { sessionId });
     return { session: null, user: null };
   }
+  const lifetime = sessionLifetime(session.isPersistent);
+  if (session.expiresAt - now < lifetime / 2) {
+    session.expiresAt = now + lifetime;
+    await db.update(sessions)
+      .set({ expiresAt: session.expiresAt })
+      .where(eq(sessions.id, session.id));
+    log.debug("Session extended", { sessionId, expiresAt: new Date(session.expiresAt).toISOString() });
+  }
+  if (metadata) {
+    await touchSession(session, metadata, now);
+  }
   log.debug("Session validated", { sessionId, userId: user.id });
   return { session, user };
 }
 
+// Record the last use of a session, and the user agent and IP address it was used from
+async function touchSession(session: Session, metadata: SessionMetadata, now: number): Promise<void> {
+  const userAgent = metadata.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? session.userAgent ?? null;
+  const ipHash = metadata.ipHash ?? session.ipHash ?? null;
+  const isStale = !session.lastUsedAt || now - session.lastUsedAt > LAST_USED_UPDATE_INTERVAL;
+  if (!isStale && userAgent === session.userAgent && ipHash === session.ipHash) return;
+
+  await db.update(sessions)
+    .set({ lastUsedAt: now, userAgent, ipHash })
+    .where(eq(sessions.id, session.id));
+  Object.assign(session, { lastUsedAt: now, userAgent, ipHash });
+}
+
+// Active sessions of a user, most recently used first
+export async function listUserSessions(userId: string, currentSessionId: string): Promise<SessionSummary[]> {
+  const rows = await db.select()
+    .from(sessions)
+    .where(eq(sessions.userId, userId))
+    .orderBy(desc(sessions.lastUsedAt));
+
+  const now = Date.now();
+  return rows
+    .filter(row => row.expiresAt >= now)
+    .map(row => ({
+      id: row.id,
+      createdAt: row.createdAt,
+      expiresAt: row.expiresAt,
+      lastUsedAt: row.lastUsedAt ?? row.createdAt,
+      userAgent: row.userAgent,
+      isCurrent: row.id === currentSessionId,
+    }));
+}
+
 // Invalidate a specific session by deleting it from the database.
 export async function invalidateSession(sessionId: string): Promise<void> {
   log.debug("Invalidating session", { sessionId });
@@ -108,9 +182,63 @@ export async function invalidateSession(sessionId: string): Promise<void> {
   log.debug("Session invalidated", { sessionId });
 }
 
-// Invalidate all sessions for a given user.
+// Invalidate one session of a user and close its streams. Returns false when the user has no such session.
+export async function invalidateUserSession(userId: string, sessionId: string): Promise<boolean> {
+  const deleted = await db.delete(sessions)
+    .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId)))
+    .returning({ id: sessions.id });
+  log.debug("User session invalidated", { userId, found: deleted.length > 0 });
+  sseEmitter.closeUserStreams(userId, deleted.map(session => session.id));
+  return deleted.length > 0;
+}
+
+// Invalidate every session of a user but the one in use, closing their streams. Returns how many were closed.
+export async function invalidateOtherSessions(userId: string, currentSessionId: string): Promise<number> {
+  const deleted = await db.delete(sessions)
+    .where(and(eq(sessions.userId, userId), ne(sessions.id, currentSessionId)))
+    .returning({ id: sessions.id });
+  log.debug("Other sessions invalidated", { userId, count: deleted.length });
+  sseEmitter.closeUserStreams(userId, deleted.map(session => session.id));
+  return deleted.length;
+}
+
+// Invalidate all sessions for a given user and close their streams.
 export async function invalidateAllSessions(userId: string): Promise<void> {
   log.debug("Invalidating all sessions for user", { userId });
   await db.delete(sessions).where(eq(sessions.userId, userId));
   log.debug("All sessions invalidated", { userId });
-} 
\ No newline at end of file
+  sseEmitter.closeUserStreams(userId);
+}
+
+// Delete the expired sessions, which validateSessionToken already refuses
+export async function purgeExpiredSessions(): Promise<number> {
+  const deleted = await db.delete(sessions)
+    .where(lt(sessions.expiresAt, Date.now()))
+    .returning({ id: sessions.id });
+  if (deleted.length > 0) {
+    log.info("Expired sessions purged", { count: deleted.length });
+  }
+  return deleted.length;
+}
+
+// Expired sessions and outdated login failures are purged together
+export async function purgeExpiredLoginData(): Promise<void> {
+  await purgeExpiredSessions();
+  const failures = await purgeOldLoginFailures();
+  if (failures > 0) {
+    log.info("Old login failures purged", { count: failures });
+  }
+}
+
+let purgeInterval: ReturnType<typeof setInterval> | null = null;
+
+export function startExpiredSessionPurge(): void {
+  if (purgeInterval) {
+    clearInterval(purgeInterval);
+  }
+  purgeInterval = setInterval(() => {
+    purgeExpiredLoginData().catch((error: unknown) => {
+      log.error("Failed to purge expired sessions and login failures", { error });
+    });
+  }, EXPIRED_SESSIONS_PURGE_INTERVAL);
+}
@@ -0,0 +1,30 @@
+import db from './db/db.server';
+import { users } from './db/schema';
+import { inArray, sql } from 'drizzle-orm';
+
+// Version of each user's buddy list. Presence changes are sent as deltas chained by version,
+// so clients can tell when they missed one and fetch the whole list again.
+// Versions are stored with the users, so every server instance numbers a list the same way.
+class BuddyListVersions {
+    // Versions to send along with full lists
+    async current(userIds: string[]): Promise<Map<string, number>> {
+        if (userIds.length === 0) return new Map();
+        const rows = await db.select({ id: users.id, version: users.buddyListVersion })
+            .from(users)
+            .where(inArray(users.id, userIds));
+        return new Map(rows.map(row => [row.id, row.version]));
+    }
+
+    // Move the users' lists to a new version, in one statement so concurrent changes get distinct versions
+    async next(userIds: string[]): Promise<Map<string, { version: number; previousVersion: number }>> {
+        if (userIds.length === 0) return new Map();
+        const rows = await db.update(users)
+            .set({ buddyListVersion: sql`${users.buddyListVersion} + 1` })
+            .where(inArray(users.id, userIds))
+            .returning({ id: users.id, version: users.buddyListVersion });
+        return new Map(rows.map(row => [row.id, { version: row.version, previousVersion: row.version - 1 }]));
+    }
+}
+
+// Export singleton instance
+export const buddyListVersions = new BuddyListVersions();
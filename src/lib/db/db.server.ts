@@ -3,6 +3,7 @@ import { createClient } from '@libsql/client';
 import { TURSO_AUTH_TOKEN, TURSO_DATABASE_URL } from '$env/static/private';
 import schema from './schema';
 import { ensureDefaultChatRoom } from '$lib/utils/chat.server';
+import { ensureMessageSearchIndex } from './messages-fts';
 import { createLogger } from '$lib/utils/logger.server';
 
 const log = createLogger('db-server');
@@ -15,6 +16,7 @@ export const initializeDatabase = async () => {
     log.debug('Initializing database...');
     try {
         await ensureDefaultChatRoom(db);
+        await ensureMessageSearchIndex(db);
         log.debug('Database initialization complete');
     } catch (error) {
         log.error('Error initializing database:', { error: error instanceof Error ? error.message : 'Unknown error' });
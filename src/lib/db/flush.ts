@@ -20,9 +20,39 @@ async function flushDatabase() {
 
     try {
         // Clear tables in correct order to respect foreign key constraints
+        console.debug('Clearing SSE outbox table...');
+        await client.execute('DELETE FROM sse_outbox');
+        
+        console.debug('Clearing moderation logs table...');
+        await client.execute('DELETE FROM moderation_logs');
+        
+        console.debug('Clearing content rules table...');
+        await client.execute('DELETE FROM content_rules');
+        
+        console.debug('Clearing sanctions table...');
+        await client.execute('DELETE FROM sanctions');
+        
+        console.debug('Clearing message reports table...');
+        await client.execute('DELETE FROM message_reports');
+        
+        console.debug('Clearing message revisions table...');
+        await client.execute('DELETE FROM message_revisions');
+        
         console.debug('Clearing messages table...');
         await client.execute('DELETE FROM messages');
         
+        console.debug('Clearing room members table...');
+        await client.execute('DELETE FROM room_members');
+        
+        console.debug('Clearing notification preferences table...');
+        await client.execute('DELETE FROM user_notification_preferences');
+        
+        console.debug('Clearing buddies table...');
+        await client.execute('DELETE FROM buddies');
+        
+        console.debug('Clearing login failures table...');
+        await client.execute('DELETE FROM login_failures');
+        
         console.debug('Clearing sessions table...');
         await client.execute('DELETE FROM sessions');
         
@@ -0,0 +1,48 @@
+import { sqliteTable as table } from 'drizzle-orm/sqlite-core';
+import * as t from 'drizzle-orm/sqlite-core';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import { sql } from 'drizzle-orm';
+import type schema from './schema';
+import { createLogger } from '$lib/utils/logger.server';
+
+const log = createLogger('messages-fts');
+
+// FTS5 index over messages.content. It is created at startup rather than declared in the schema
+// because drizzle-kit does not handle virtual tables (see tablesFilter in drizzle.config.ts).
+export const messagesFts = table('messages_fts', {
+    rowid: t.integer('rowid'),
+    content: t.text('content')
+});
+
+// Create the search index and the triggers keeping it in sync with the messages table
+export async function ensureMessageSearchIndex(database: LibSQLDatabase<typeof schema>) {
+    log.debug('Ensuring message search index exists...');
+    const existing = await database.get<{ name: string }>(
+        sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts'`
+    );
+
+    await database.batch([
+        database.run(sql`CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+            content,
+            content = 'messages',
+            content_rowid = 'rowid',
+            tokenize = 'unicode61 remove_diacritics 2'
+        )`),
+        database.run(sql`CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+            INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+        END`),
+        database.run(sql`CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+            INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        END`),
+        database.run(sql`CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+            INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+            INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+        END`)
+    ]);
+
+    // Index the history that predates the search table
+    if (!existing) {
+        await database.run(sql`INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')`);
+        log.info('Message search index created and populated');
+    }
+}
@@ -1,6 +1,6 @@
 import { sqliteTable as table } from "drizzle-orm/sqlite-core";
 import * as t from "drizzle-orm/sqlite-core";
-import type { User, ChatRoom, Message, UserStatus, MessageType, Session } from "../types/chat";
+import type { User, ChatRoom, Message, MessageRevision, UserStatus, UserRole, MessageType, Session, RoomMember, RoomMemberRole, Sanction, SanctionType, ModerationLogEntry, ModerationAction, MessageReport, ContentRule, ContentRuleKind, ContentRuleAction, LoginFailure, Buddy, BuddyState } from "../types/chat";
 import { v4 as uuidv4 } from "uuid";
 import { eq } from "drizzle-orm";
 
@@ -12,9 +12,13 @@ export const users = table(
     password: t.text("password").notNull(),
     nickname: t.text("nickname").notNull(),
     status: t.text("status").notNull().$type<UserStatus>().default("offline"),
+    role: t.text("role").notNull().$type<UserRole>().default("user"),
     avatarUrl: t.text("avatar_url"),
     createdAt: t.integer("created_at").notNull(),
     lastSeen: t.integer("last_seen"),
+    statusMessage: t.text("status_message"),
+    awayMessage: t.text("away_message"), // Set while away, the status then stays "away" until it is cleared
+    buddyListVersion: t.integer("buddy_list_version").notNull().default(0), // See buddyListVersions.ts
   }
 );
 
@@ -25,7 +29,45 @@ export const sessions = table(
     userId: t.text("user_id").references(() => users.id).notNull(),
     expiresAt: t.integer("expires_at").notNull(),
     createdAt: t.integer("created_at").notNull(),
-  }
+    isPersistent: t.integer("is_persistent", { mode: "boolean" }).notNull().default(true), // "Remember me" sessions live longer
+    lastUsedAt: t.integer("last_used_at"),
+    userAgent: t.text("user_agent"),
+    ipHash: t.text("ip_hash"), // HMAC of the last IP address the session was used from
+  },
+  (table) => [
+    t.index("sessions_user_idx").on(table.userId),
+  ]
+);
+
+// Failed logins by nickname since the last successful login with it
+export const loginFailures = table(
+  "login_failures",
+  {
+    id: t.text("id").primaryKey().$default(() => uuidv4()),
+    // The nickname tried, registered or not, so failures look the same for unknown nicknames
+    nickname: t.text("nickname").notNull(),
+    ipHash: t.text("ip_hash"),
+    userAgent: t.text("user_agent"),
+    createdAt: t.integer("created_at").notNull(),
+  },
+  (table) => [
+    t.index("login_failures_nickname_idx").on(table.nickname),
+  ]
+);
+
+export const buddies = table(
+  "buddies",
+  {
+    ownerId: t.text("owner_id").references(() => users.id).notNull(),
+    buddyId: t.text("buddy_id").references(() => users.id).notNull(),
+    groupName: t.text("group_name").notNull(),
+    state: t.text("state").$type<BuddyState>().notNull().default("pending"),
+    createdAt: t.integer("created_at").notNull(),
+  },
+  (table) => [
+    t.primaryKey({ columns: [table.ownerId, table.buddyId] }),
+    t.index("buddies_buddy_idx").on(table.buddyId),
+  ]
 );
 
 export const chatRooms = table(
@@ -34,10 +76,25 @@ export const chatRooms = table(
     id: t.text("id").primaryKey().$default(() => uuidv4()),
     name: t.text("name"),
     type: t.text("type").$type<"direct" | "group">().notNull().default("direct"),
+    directKey: t.text("direct_key").unique(), // Sorted participant ids, deduplicates direct rooms per user pair
     createdAt: t.integer("created_at").notNull(),
   }
 );
 
+export const roomMembers = table(
+  "room_members",
+  {
+    roomId: t.text("room_id").references(() => chatRooms.id).notNull(),
+    userId: t.text("user_id").references(() => users.id).notNull(),
+    role: t.text("role").$type<RoomMemberRole>().notNull().default("member"),
+    joinedAt: t.integer("joined_at").notNull(),
+  },
+  (table) => [
+    t.primaryKey({ columns: [table.roomId, table.userId] }),
+    t.index("room_members_user_idx").on(table.userId),
+  ]
+);
+
 export const messages = table(
   "messages",
   {
@@ -49,9 +106,44 @@ export const messages = table(
     timestamp: t.integer("timestamp").notNull(),
     styleData: t.text("style_data"), // JSON string of TextStyle object
     hasFormatting: t.integer("has_formatting", { mode: "boolean" }).default(false), // Boolean flag
+    editedAt: t.integer("edited_at"),
+    deletedAt: t.integer("deleted_at"),
+    mentions: t.text("mentions", { mode: "json" }).$type<string[]>(), // Ids of the mentioned users
   }
 );
 
+// Previous versions of edited or deleted messages
+export const messageRevisions = table(
+  "message_revisions",
+  {
+    id: t.text("id").primaryKey().$default(() => uuidv4()),
+    messageId: t.text("message_id").references(() => messages.id).notNull(),
+    content: t.text("content").notNull(),
+    styleData: t.text("style_data"),
+    createdAt: t.integer("created_at").notNull(), // When this version was replaced
+  },
+  (table) => [
+    t.index("message_revisions_message_idx").on(table.messageId),
+  ]
+);
+
+// Reports of messages by users, one per user and message
+export const messageReports = table(
+  "message_reports",
+  {
+    id: t.text("id").primaryKey().$default(() => uuidv4()),
+    messageId: t.text("message_id").references(() => messages.id).notNull(),
+    reporterId: t.text("reporter_id").references(() => users.id), // null for content filter flags
+    reason: t.text("reason").notNull(),
+    createdAt: t.integer("created_at").notNull(),
+    resolvedAt: t.integer("resolved_at"),
+    resolvedBy: t.text("resolved_by").references(() => users.id),
+  },
+  (table) => [
+    t.uniqueIndex("message_reports_message_reporter_idx").on(table.messageId, table.reporterId),
+  ]
+);
+
 export const userTextPreferences = table(
   "user_text_preferences",
   {
@@ -59,6 +151,7 @@ export const userTextPreferences = table(
     defaultFontFamily: t.text("default_font_family").default("tahoma"),
     defaultFontSize: t.integer("default_font_size").default(14),
     defaultColor: t.text("default_color").default("black"),
+    defaultStyleData: t.text("default_style_data"), // JSON string of the full default TextStyle
     allowFormatting: t.integer("allow_formatting", { mode: "boolean" }).default(true),
     maxMessageLength: t.integer("max_message_length").default(500),
     stylePresets: t.text("style_presets"), // JSON array of saved styles
@@ -67,17 +160,131 @@ export const userTextPreferences = table(
   }
 );
 
+// Sounds and desktop notifications, see NotificationPreferences
+export const userNotificationPreferences = table(
+  "user_notification_preferences",
+  {
+    userId: t.text("user_id").references(() => users.id).primaryKey(),
+    sounds: t.integer("sounds", { mode: "boolean" }).notNull().default(true),
+    notifications: t.integer("notifications", { mode: "boolean" }).notNull().default(false),
+    buddySettings: t.text("buddy_settings"), // JSON object of per-buddy overrides, by user id
+    createdAt: t.integer("created_at").notNull(),
+    updatedAt: t.integer("updated_at").notNull(),
+  }
+);
+
+// Mutes and bans; a ban targets either a user or a hashed IP address
+export const sanctions = table(
+  "sanctions",
+  {
+    id: t.text("id").primaryKey().$default(() => uuidv4()),
+    type: t.text("type").$type<SanctionType>().notNull(),
+    userId: t.text("user_id").references(() => users.id),
+    ipHash: t.text("ip_hash"),
+    reason: t.text("reason"),
+    createdBy: t.text("created_by").references(() => users.id).notNull(),
+    createdAt: t.integer("created_at").notNull(),
+    expiresAt: t.integer("expires_at"), // null for permanent sanctions
+    liftedAt: t.integer("lifted_at"),
+    liftedBy: t.text("lifted_by").references(() => users.id),
+  },
+  (table) => [
+    t.index("sanctions_user_idx").on(table.userId),
+    t.index("sanctions_ip_hash_idx").on(table.ipHash),
+  ]
+);
+
+// Audit log of moderator actions
+export const moderationLogs = table(
+  "moderation_logs",
+  {
+    id: t.text("id").primaryKey().$default(() => uuidv4()),
+    actorId: t.text("actor_id").references(() => users.id).notNull(),
+    action: t.text("action").$type<ModerationAction>().notNull(),
+    targetUserId: t.text("target_user_id").references(() => users.id),
+    targetIpHash: t.text("target_ip_hash"),
+    sanctionId: t.text("sanction_id").references(() => sanctions.id),
+    reason: t.text("reason"),
+    details: t.text("details"), // JSON string with action specific data
+    createdAt: t.integer("created_at").notNull(),
+  },
+  (table) => [
+    t.index("moderation_logs_created_at_idx").on(table.createdAt),
+  ]
+);
+
+// Content filter rules applied to new and edited messages
+export const contentRules = table(
+  "content_rules",
+  {
+    id: t.text("id").primaryKey().$default(() => uuidv4()),
+    kind: t.text("kind").$type<ContentRuleKind>().notNull(),
+    value: t.text("value").notNull(),
+    action: t.text("action").$type<ContentRuleAction>().notNull(),
+    enabled: t.integer("enabled", { mode: "boolean" }).notNull().default(true),
+    createdBy: t.text("created_by").references(() => users.id).notNull(),
+    createdAt: t.integer("created_at").notNull(),
+  }
+);
+
+// Automatic replies already sent for the current away message, one per conversation and sender.
+// Cleared whenever the away message changes.
+export const awayReplies = table(
+  "away_replies",
+  {
+    userId: t.text("user_id").references(() => users.id).notNull(), // The away user
+    roomId: t.text("room_id").references(() => chatRooms.id).notNull(),
+    senderId: t.text("sender_id").references(() => users.id).notNull(),
+    createdAt: t.integer("created_at").notNull(),
+  },
+  (table) => [
+    t.primaryKey({ columns: [table.userId, table.roomId, table.senderId] }),
+  ]
+);
+
+// Outbox used by the shared SSE broker to relay events between server instances
+export const sseOutbox = table(
+  "sse_outbox",
+  {
+    id: t.integer("id").primaryKey({ autoIncrement: true }),
+    channel: t.text("channel").notNull(),
+    payload: t.text("payload").notNull(), // JSON string of the SSE event
+    origin: t.text("origin").notNull(), // Id of the instance that published the event
+    createdAt: t.integer("created_at").notNull(),
+  },
+  (table) => [
+    t.index("sse_outbox_created_at_idx").on(table.createdAt),
+  ]
+);
+
 // Validate schema types against interfaces
 export type Users = typeof users.$inferSelect;
 export type ChatRooms = typeof chatRooms.$inferSelect;
 export type Messages = typeof messages.$inferSelect;
 export type Sessions = typeof sessions.$inferSelect;
 export type UserTextPreferences = typeof userTextPreferences.$inferSelect;
+export type UserNotificationPreferences = typeof userNotificationPreferences.$inferSelect;
+export type RoomMembers = typeof roomMembers.$inferSelect;
+export type MessageRevisions = typeof messageRevisions.$inferSelect;
+export type Sanctions = typeof sanctions.$inferSelect;
+export type ModerationLogs = typeof moderationLogs.$inferSelect;
+export type MessageReports = typeof messageReports.$inferSelect;
+export type ContentRules = typeof contentRules.$inferSelect;
+export type LoginFailures = typeof loginFailures.$inferSelect;
+export type Buddies = typeof buddies.$inferSelect;
 // These type assertions will fail if the schema doesn't match the interfaces
 export type _UsersValidation = Omit<User, keyof Users> & Omit<Users, keyof User>;
 export type _ChatRoomsValidation = Omit<ChatRoom, keyof ChatRooms> & Omit<ChatRooms, keyof ChatRoom>;
 export type _MessagesValidation = Omit<Message, keyof Messages> & Omit<Messages, keyof Message>;
 export type _SessionsValidation = Omit<Session, keyof Sessions> & Omit<Sessions, keyof Session>;
+export type _RoomMembersValidation = Omit<RoomMember, keyof RoomMembers> & Omit<RoomMembers, keyof RoomMember>;
+export type _MessageRevisionsValidation = Omit<MessageRevision, keyof MessageRevisions> & Omit<MessageRevisions, keyof MessageRevision>;
+export type _SanctionsValidation = Omit<Sanction, keyof Sanctions> & Omit<Sanctions, keyof Sanction>;
+export type _ModerationLogsValidation = Omit<ModerationLogEntry, keyof ModerationLogs> & Omit<ModerationLogs, keyof ModerationLogEntry>;
+export type _MessageReportsValidation = Omit<MessageReport, keyof MessageReports> & Omit<MessageReports, keyof MessageReport>;
+export type _ContentRulesValidation = Omit<ContentRule, keyof ContentRules> & Omit<ContentRules, keyof ContentRule>;
+export type _LoginFailuresValidation = Omit<LoginFailure, keyof LoginFailures> & Omit<LoginFailures, keyof LoginFailure>;
+export type _BuddiesValidation = Omit<Buddy, keyof Buddies> & Omit<Buddies, keyof Buddy>;
 
 export const userView = t.sqliteView("user_view").as((qb) => 
   qb.select({
@@ -116,9 +323,20 @@ export const messageView = t.sqliteView("message_view").as((qb) =>
 const schema = {
     users,
     sessions,
+    loginFailures,
+    buddies,
     chatRooms,
     messages,
+    messageRevisions,
+    messageReports,
+    roomMembers,
     userTextPreferences,
+    userNotificationPreferences,
+    sanctions,
+    moderationLogs,
+    contentRules,
+    awayReplies,
+    sseOutbox,
     userView,
     chatRoomView,
     messageView
@@ -0,0 +1,208 @@
+import { env } from '$env/dynamic/private';
+import { v4 as uuidv4 } from 'uuid';
+import { asc, gt, lt, max } from 'drizzle-orm';
+import db from './db/db.server';
+import { sseOutbox } from './db/schema';
+import { createLogger } from './utils/logger.server';
+
+const log = createLogger('sse-broker');
+
+export type SSEEventData = {
+    type: string;
+    data: unknown;
+};
+
+// `eventId` is undefined for events the broker could not number, they cannot be replayed
+export type BrokerHandler = (channel: string, data: SSEEventData, eventId: number | undefined) => void;
+
+/**
+ * Transport behind the SSE emitter.
+ * A broker receives every published event and hands it back, on every server instance,
+ * to the handler registered with `onMessage`, which delivers it to the local streams.
+ * Event ids always increase and an event has the same id on every instance.
+ */
+export interface SSEBroker {
+    readonly name: string;
+    // Every event with a greater id is handed to this instance's handler; null until known
+    readonly startEventId: number | null;
+    publish(channel: string, data: SSEEventData): void;
+    onMessage(handler: BrokerHandler): void;
+    stop(): void;
+}
+
+// Default broker: events never leave the current process.
+// Ids follow the clock so they keep increasing across server restarts.
+export class InMemoryBroker implements SSEBroker {
+    readonly name = 'memory';
+    readonly startEventId = Date.now();
+    private lastId = this.startEventId;
+    private handler: BrokerHandler | null = null;
+
+    publish(channel: string, data: SSEEventData) {
+        this.lastId = Math.max(this.lastId + 1, Date.now());
+        this.handler?.(channel, data, this.lastId);
+    }
+
+    onMessage(handler: BrokerHandler) {
+        this.handler = handler;
+    }
+
+    stop() {
+        this.handler = null;
+    }
+}
+
+interface OutboxBrokerOptions {
+    pollIntervalMs?: number;
+    retentionMs?: number;
+    batchSize?: number;
+}
+
+/**
+ * Shared broker over the libsql database: events are appended to the `sse_outbox` table
+ * and every instance polls it for rows published by the others.
+ * Events are numbered by their outbox row, so a stream can resume on any instance.
+ * Local events are written one after the other and delivered once written, so they reach
+ * local streams in id order, then skipped when they come back from the outbox.
+ */
+export class LibsqlOutboxBroker implements SSEBroker {
+    readonly name = 'libsql';
+    private readonly instanceId = uuidv4();
+    private handler: BrokerHandler | null = null;
+    // Tail of the local publishes, each one waits for the previous to be written and delivered
+    private publishQueue: Promise<void> = Promise.resolve();
+    private lastSeenId: number | null = null;
+    // Rows up to this id were published before this instance started polling
+    startEventId: number | null = null;
+    private isPolling = false;
+    private pollInterval: ReturnType<typeof setInterval> | null = null;
+    private pruneInterval: ReturnType<typeof setInterval> | null = null;
+    private readonly pollIntervalMs: number;
+    private readonly retentionMs: number;
+    private readonly batchSize: number;
+
+    constructor(options: OutboxBrokerOptions = {}) {
+        this.pollIntervalMs = options.pollIntervalMs ?? 500;
+        this.retentionMs = options.retentionMs ?? 5 * 60 * 1000;
+        this.batchSize = options.batchSize ?? 200;
+    }
+
+    publish(channel: string, data: SSEEventData) {
+        this.publishQueue = this.publishQueue.then(() => this.write(channel, data));
+    }
+
+    // Local streams get the event as soon as its row, and so its id, exists
+    private async write(channel: string, data: SSEEventData) {
+        let eventId: number | undefined;
+        try {
+            const row = await db.insert(sseOutbox)
+                .values({
+                    channel,
+                    payload: JSON.stringify(data),
+                    origin: this.instanceId,
+                    createdAt: Date.now()
+                })
+                .returning({ id: sseOutbox.id })
+                .get();
+            eventId = row.id;
+        } catch (error) {
+            log.error('Failed to publish event to outbox', {
+                channel,
+                type: data.type,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+            // Other instances miss it, local streams still get it, without an id
+        }
+
+        try {
+            this.handler?.(channel, data, eventId);
+        } catch (error) {
+            log.error('Error delivering local event', {
+                channel,
+                type: data.type,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    onMessage(handler: BrokerHandler) {
+        this.handler = handler;
+        this.start();
+    }
+
+    private start() {
+        if (this.pollInterval) return;
+        log.info('Starting outbox polling', { instanceId: this.instanceId, pollIntervalMs: this.pollIntervalMs });
+        this.pollInterval = setInterval(() => this.poll(), this.pollIntervalMs);
+        this.pruneInterval = setInterval(() => this.prune(), 60 * 1000);
+    }
+
+    private async poll() {
+        if (this.isPolling || !this.handler) return;
+        this.isPolling = true;
+        try {
+            // Start from the current end of the outbox: history is not replayed on boot
+            if (this.lastSeenId === null) {
+                const result = await db.select({ lastId: max(sseOutbox.id) }).from(sseOutbox).get();
+                this.lastSeenId = result?.lastId ?? 0;
+                this.startEventId = this.lastSeenId;
+                return;
+            }
+
+            const rows = await db.select()
+                .from(sseOutbox)
+                .where(gt(sseOutbox.id, this.lastSeenId))
+                .orderBy(asc(sseOutbox.id))
+                .limit(this.batchSize);
+
+            for (const row of rows) {
+                this.lastSeenId = row.id;
+                if (row.origin === this.instanceId) continue;
+                try {
+                    this.handler(row.channel, JSON.parse(row.payload) as SSEEventData, row.id);
+                } catch (error) {
+                    log.warn('Skipping malformed outbox event', {
+                        id: row.id,
+                        error: error instanceof Error ? error.message : 'Unknown error'
+                    });
+                }
+            }
+        } catch (error) {
+            log.error('Error polling outbox', { error: error instanceof Error ? error.message : 'Unknown error' });
+        } finally {
+            this.isPolling = false;
+        }
+    }
+
+    private async prune() {
+        try {
+            await db.delete(sseOutbox).where(lt(sseOutbox.createdAt, Date.now() - this.retentionMs));
+        } catch (error) {
+            log.error('Error pruning outbox', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+    }
+
+    stop() {
+        if (this.pollInterval) clearInterval(this.pollInterval);
+        if (this.pruneInterval) clearInterval(this.pruneInterval);
+        this.pollInterval = null;
+        this.pruneInterval = null;
+        this.handler = null;
+    }
+}
+
+// Pick the broker from SSE_BROKER ("memory" by default, "libsql" for multi-instance deployments)
+export function createSSEBroker(): SSEBroker {
+    const brokerName = (env.SSE_BROKER || 'memory').toLowerCase();
+    switch (brokerName) {
+        case 'libsql':
+            return new LibsqlOutboxBroker({
+                pollIntervalMs: env.SSE_OUTBOX_POLL_MS ? parseInt(env.SSE_OUTBOX_POLL_MS) : undefined
+            });
+        case 'memory':
+            return new InMemoryBroker();
+        default:
+            log.warn('Unknown SSE broker, falling back to memory', { brokerName });
+            return new InMemoryBroker();
+    }
+}
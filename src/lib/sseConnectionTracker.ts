@@ -1,90 +1,163 @@
+import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from './utils/logger.server';
 
 const log = createLogger('sse-connection-tracker');
 
 interface ConnectionInfo {
+    connectionId: string;
     userId: string;
+    sessionId: string;
+    // Ends the stream, for when its session ends
+    close: () => void;
     connectedAt: number;
     lastActivity: number;
 }
 
+// A user is connected as long as one of their streams (tabs, devices) is open
 class SSEConnectionTracker {
     private connections = new Map<string, ConnectionInfo>();
-    
-    addConnection(userId: string): boolean {
-        const existing = this.connections.get(userId);
-        if (existing) {
-            log.debug('User already has active connection', { userId });
-            // Update last activity but don't trigger status update
-            existing.lastActivity = Date.now();
-            return false; // Connection already exists
+    private userConnections = new Map<string, Set<string>>();
+
+    // Track a new stream. `isFirstConnection` tells whether the user just came online.
+    addConnection(userId: string, sessionId: string, close: () => void): { connectionId: string; isFirstConnection: boolean } {
+        const connectionId = uuidv4();
+        const now = Date.now();
+        this.connections.set(connectionId, {
+            connectionId,
+            userId,
+            sessionId,
+            close,
+            connectedAt: now,
+            lastActivity: now
+        });
+
+        let userConnectionIds = this.userConnections.get(userId);
+        const isFirstConnection = !userConnectionIds;
+        if (!userConnectionIds) {
+            userConnectionIds = new Set();
+            this.userConnections.set(userId, userConnectionIds);
         }
-        
-        this.connections.set(userId, {
+        userConnectionIds.add(connectionId);
+
+        log.debug('New SSE connection tracked', {
             userId,
-            connectedAt: Date.now(),
-            lastActivity: Date.now()
+            connectionId,
+            userConnections: userConnectionIds.size,
+            totalConnections: this.connections.size
         });
-        
-        log.debug('New SSE connection tracked', { 
-            userId, 
-            totalConnections: this.connections.size 
+        return { connectionId, isFirstConnection };
+    }
+
+    // Stop tracking a stream. Returns whether it was the user's last one, so they are now offline.
+    // Removing an unknown or already removed connection returns false.
+    removeConnection(connectionId: string): boolean {
+        const connection = this.connections.get(connectionId);
+        if (!connection) return false;
+
+        this.connections.delete(connectionId);
+        const userConnectionIds = this.userConnections.get(connection.userId);
+        userConnectionIds?.delete(connectionId);
+        const wasLastConnection = !userConnectionIds || userConnectionIds.size === 0;
+        if (wasLastConnection) {
+            this.userConnections.delete(connection.userId);
+        }
+
+        log.debug('SSE connection removed', {
+            userId: connection.userId,
+            connectionId,
+            wasLastConnection,
+            remainingConnections: this.connections.size
         });
-        return true; // New connection
+        return wasLastConnection;
     }
-    
-    removeConnection(userId: string): boolean {
-        const deleted = this.connections.delete(userId);
-        if (deleted) {
-            log.debug('SSE connection removed', { 
-                userId, 
-                remainingConnections: this.connections.size 
-            });
+
+    // Close every stream of a user, when they are logged out everywhere
+    closeUserConnections(userId: string): number {
+        const connectionIds = Array.from(this.userConnections.get(userId) ?? []);
+        return this.closeConnections(connectionIds, 'user disconnected');
+    }
+
+    // Close the streams opened with the given sessions, when those sessions are revoked
+    closeSessionConnections(sessionIds: string[]): number {
+        const connectionIds = Array.from(this.connections.values())
+            .filter(connection => sessionIds.includes(connection.sessionId))
+            .map(connection => connection.connectionId);
+        return this.closeConnections(connectionIds, 'session revoked');
+    }
+
+    // Closing a stream removes its connection, so the ids are collected first
+    private closeConnections(connectionIds: string[], reason: string): number {
+        for (const connectionId of connectionIds) {
+            const connection = this.connections.get(connectionId);
+            if (!connection) continue;
+            try {
+                connection.close();
+            } catch (error) {
+                log.error('Error closing SSE connection', { connectionId, error });
+            }
+            // The stream removes itself when closed, this covers one that failed to
+            this.removeConnection(connectionId);
         }
-        return deleted;
+        if (connectionIds.length > 0) {
+            log.info('SSE connections closed', { count: connectionIds.length, reason });
+        }
+        return connectionIds.length;
     }
-    
+
     hasConnection(userId: string): boolean {
-        return this.connections.has(userId);
+        return this.userConnections.has(userId);
     }
-    
-    updateActivity(userId: string): void {
-        const connection = this.connections.get(userId);
+
+    getUserConnectionCount(userId: string): number {
+        return this.userConnections.get(userId)?.size ?? 0;
+    }
+
+    updateActivity(connectionId: string): void {
+        const connection = this.connections.get(connectionId);
         if (connection) {
             connection.lastActivity = Date.now();
         }
     }
-    
+
     getActiveUserIds(): string[] {
-        return Array.from(this.connections.keys());
+        return Array.from(this.userConnections.keys());
     }
-    
+
+    // Open streams, a user with several tabs counts several times
     getConnectionCount(): number {
         return this.connections.size;
     }
-    
-    // Clean up stale connections (e.g., if server didn't properly close them)
+
+    getConnectedUserCount(): number {
+        return this.userConnections.size;
+    }
+
+    // Clean up stale connections (e.g., if server didn't properly close them).
+    // Returns the users who lost their last connection.
     cleanupStaleConnections(maxInactivityMs: number = 5 * 60 * 1000): string[] {
         const now = Date.now();
-        const staleUserIds: string[] = [];
-        
-        for (const [userId, info] of this.connections.entries()) {
+        const staleConnectionIds: string[] = [];
+        const offlineUserIds: string[] = [];
+
+        for (const [connectionId, info] of this.connections.entries()) {
             if (now - info.lastActivity > maxInactivityMs) {
-                this.connections.delete(userId);
-                staleUserIds.push(userId);
+                staleConnectionIds.push(connectionId);
+                if (this.removeConnection(connectionId)) {
+                    offlineUserIds.push(info.userId);
+                }
             }
         }
-        
-        if (staleUserIds.length > 0) {
-            log.info('Cleaned up stale connections', { 
-                count: staleUserIds.length,
-                userIds: staleUserIds
+
+        if (staleConnectionIds.length > 0) {
+            log.info('Cleaned up stale connections', {
+                count: staleConnectionIds.length,
+                offlineUserIds
             });
         }
-        
-        return staleUserIds;
+
+        return offlineUserIds;
     }
 }
 
 // Export singleton instance
-export const sseConnectionTracker = new SSEConnectionTracker();
\ No newline at end of file
+export const sseConnectionTracker = new SSEConnectionTracker();
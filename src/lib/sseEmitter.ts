@@ -1,54 +1,219 @@
-type SSEEventData = {
-    type: string;
-    data: unknown;
-};
+import { createSSEBroker, type SSEBroker, type SSEEventData } from './sseBroker';
+import { sseReplayBuffer } from './sseReplayBuffer';
+import { sseConnectionTracker } from './sseConnectionTracker';
+
+type SSEListener = (data: SSEEventData, eventId: number | undefined) => void;
+
+// Channel every connected stream listens to
+export const BROADCAST_CHANNEL = 'sse';
+
+export function userChannel(userId: string): string {
+    return `user:${userId}`;
+}
+
+export function roomChannel(roomId: string): string {
+    return `room:${roomId}`;
+}
+
+// Internal channel used to apply room membership changes on every server instance
+const MEMBERSHIP_CHANNEL = 'internal:membership';
+
+interface MembershipChange {
+    userId: string;
+    roomId: string;
+    joined: boolean;
+}
+
+// Internal channel used to close a user's streams on every server instance
+const CONNECTIONS_CHANNEL = 'internal:connections';
+
+interface StreamsClosing {
+    userId: string;
+    sessionIds?: string[]; // Only the streams opened with these sessions, all of the user's otherwise
+}
+
+interface Subscription {
+    userId: string;
+    channels: Set<string>;
+}
 
 class CustomEventEmitter {
-    private listeners: Map<string, Array<(data: SSEEventData) => void>> = new Map();
+    private listeners: Map<string, Array<SSEListener>> = new Map();
     private maxListeners: number = 100;
+    // Channels each stream is subscribed to, so room membership changes can be applied live
+    private subscriptions: Map<SSEListener, Subscription> = new Map();
+    private broker: SSEBroker;
 
-    constructor() {
-        console.log('[SSE-Emitter] Initialized');
+    constructor(broker: SSEBroker) {
+        this.broker = broker;
+        this.broker.onMessage((channel, data, eventId) => this.deliver(channel, data, eventId));
+        console.log('[SSE-Emitter] Initialized', { broker: broker.name });
     }
 
+    // Replace the transport, e.g. to share events between server instances
+    setBroker(broker: SSEBroker) {
+        this.broker.stop();
+        this.broker = broker;
+        // Ids of the previous broker mean nothing to the new one
+        sseReplayBuffer.reset();
+        this.broker.onMessage((channel, data, eventId) => this.deliver(channel, data, eventId));
+        console.log('[SSE-Emitter] Broker updated:', { broker: broker.name });
+    }
+
+    // Publish through the broker so every instance delivers the event to its own streams
     emit(event: string, data: SSEEventData) {
+        this.broker.publish(event, data);
+    }
+
+    // Hand an event to the listeners connected to this instance
+    private deliver(event: string, data: SSEEventData, eventId: number | undefined) {
+        if (event === MEMBERSHIP_CHANNEL) {
+            this.applyMembershipChange(data.data as MembershipChange);
+            return;
+        }
+        if (event === CONNECTIONS_CHANNEL) {
+            const { userId, sessionIds } = data.data as StreamsClosing;
+            if (sessionIds) {
+                sseConnectionTracker.closeSessionConnections(sessionIds);
+            } else {
+                sseConnectionTracker.closeUserConnections(userId);
+            }
+            return;
+        }
+
+        // Events carry the broker's id so reconnecting streams can ask for what they missed
+        if (eventId !== undefined) {
+            sseReplayBuffer.record(event, eventId, data);
+        }
+
         const eventListeners = this.listeners.get(event);
         if (eventListeners) {
             // Only log non-sensitive event types
-            if (!['userStatusUpdate', 'chatMessage'].includes(data.type)) {
+            if (!['presenceDelta', 'chatMessage', 'mention', 'typing'].includes(data.type)) {
                 console.log('[SSE-Emitter] Broadcasting event:', { type: data.type, listenersCount: eventListeners.length });
             }
-            eventListeners.forEach(listener => listener(data));
+            eventListeners.forEach(listener => listener(data, eventId));
         }
     }
 
-    addListener(event: string, listener: (data: SSEEventData) => void) {
+    // Deliver an event to every connected stream
+    broadcast(data: SSEEventData) {
+        this.emit(BROADCAST_CHANNEL, data);
+    }
+
+    // Deliver an event to every stream opened by a given user
+    emitToUser(userId: string, data: SSEEventData) {
+        this.emit(userChannel(userId), data);
+    }
+
+    // Deliver an event to the streams of a room's members
+    emitToRoom(roomId: string, data: SSEEventData) {
+        this.emit(roomChannel(roomId), data);
+    }
+
+    addListener(event: string, listener: SSEListener) {
         if (!this.listeners.has(event)) {
             this.listeners.set(event, []);
         }
         const eventListeners = this.listeners.get(event)!;
-        
+
         if (eventListeners.length >= this.maxListeners) {
             console.log(`[SSE-Emitter] Warning: Event '${event}' has exceeded the maximum number of listeners (${this.maxListeners})`);
         }
-        
+
         eventListeners.push(listener);
         console.log('[SSE-Emitter] New listener added:', { event, totalListeners: eventListeners.length });
     }
 
-    removeListener(event: string, listenerToRemove: (data: SSEEventData) => void) {
+    removeListener(event: string, listenerToRemove: SSEListener) {
         const eventListeners = this.listeners.get(event);
         if (eventListeners) {
             const newListeners = eventListeners.filter(listener => listener !== listenerToRemove);
-            this.listeners.set(event, newListeners);
+            if (newListeners.length > 0) {
+                this.listeners.set(event, newListeners);
+            } else {
+                // Drop empty per-user and per-room channels so they do not pile up
+                this.listeners.delete(event);
+            }
             console.log('[SSE-Emitter] Listener removed:', { event, remainingListeners: newListeners.length });
         }
     }
 
+    // Subscribe a user's stream to the broadcast channel, its own channel and its rooms
+    subscribe(userId: string, listener: SSEListener, roomIds: string[] = []) {
+        const channels = new Set([BROADCAST_CHANNEL, userChannel(userId), ...roomIds.map(roomChannel)]);
+        channels.forEach(channel => this.addListener(channel, listener));
+        this.subscriptions.set(listener, { userId, channels });
+    }
+
+    // Send a stream the buffered events of its channels published after lastEventId.
+    // Returns false when some of them are no longer buffered and the client has to resync.
+    replay(listener: SSEListener, lastEventId: number): boolean {
+        const subscription = this.subscriptions.get(listener);
+        if (!subscription) return false;
+
+        const result = sseReplayBuffer.getEventsSince(lastEventId, subscription.channels, this.broker.startEventId);
+        if (result.status === 'resync') return false;
+
+        result.events.forEach(buffered => listener(buffered.event, buffered.id));
+        console.log('[SSE-Emitter] Replayed missed events:', { lastEventId, count: result.events.length });
+        return true;
+    }
+
+    unsubscribe(listener: SSEListener) {
+        const subscription = this.subscriptions.get(listener);
+        if (!subscription) return;
+        subscription.channels.forEach(channel => this.removeListener(channel, listener));
+        this.subscriptions.delete(listener);
+    }
+
+    // Apply a room join to the user's open streams, wherever they are connected
+    addUserToRoom(userId: string, roomId: string) {
+        this.emit(MEMBERSHIP_CHANNEL, { type: 'roomMembership', data: { userId, roomId, joined: true } });
+    }
+
+    // Apply a room leave to the user's open streams, wherever they are connected
+    removeUserFromRoom(userId: string, roomId: string) {
+        this.emit(MEMBERSHIP_CHANNEL, { type: 'roomMembership', data: { userId, roomId, joined: false } });
+    }
+
+    // Close a user's open streams, or those of some of their sessions, wherever they are connected
+    closeUserStreams(userId: string, sessionIds?: string[]) {
+        if (sessionIds?.length === 0) return;
+        this.emit(CONNECTIONS_CHANNEL, { type: 'closeStreams', data: { userId, sessionIds } });
+    }
+
+    private applyMembershipChange({ userId, roomId, joined }: MembershipChange) {
+        if (joined) {
+            this.subscribeToRoom(userId, roomId);
+        } else {
+            this.unsubscribeFromRoom(userId, roomId);
+        }
+    }
+
+    private subscribeToRoom(userId: string, roomId: string) {
+        const channel = roomChannel(roomId);
+        for (const [listener, subscription] of this.subscriptions) {
+            if (subscription.userId === userId && !subscription.channels.has(channel)) {
+                subscription.channels.add(channel);
+                this.addListener(channel, listener);
+            }
+        }
+    }
+
+    private unsubscribeFromRoom(userId: string, roomId: string) {
+        const channel = roomChannel(roomId);
+        for (const [listener, subscription] of this.subscriptions) {
+            if (subscription.userId === userId && subscription.channels.delete(channel)) {
+                this.removeListener(channel, listener);
+            }
+        }
+    }
+
     setMaxListeners(n: number) {
         this.maxListeners = n;
         console.log('[SSE-Emitter] Max listeners updated:', { newLimit: n });
     }
 }
 
-export const sseEmitter = new CustomEventEmitter(); 
\ No newline at end of file
+export const sseEmitter = new CustomEventEmitter(createSSEBroker());
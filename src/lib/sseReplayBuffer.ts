@@ -0,0 +1,116 @@
+import { createLogger } from './utils/logger.server';
+import type { SSEEventData } from './sseBroker';
+
+const log = createLogger('sse-replay-buffer');
+
+// Only events that change what the client displays are worth replaying. Presence deltas are too:
+// every stream starts with the whole buddy list, and clients skip the deltas it already includes.
+// Typing indicators are stale by the time a client reconnects.
+const REPLAYABLE_EVENT_TYPES = ['chatMessage', 'messageEdited', 'messageDeleted', 'mention', 'presenceDelta'];
+
+const MAX_EVENTS_PER_CHANNEL = 200;
+const MAX_EVENT_AGE_MS = 5 * 60 * 1000; // 5 minutes
+// Channels without events are forgotten after this long, see `forgottenUpToId`
+const MAX_CHANNEL_IDLE_MS = 60 * 60 * 1000; // 1 hour
+
+export interface BufferedEvent {
+    id: number;
+    channel: string;
+    event: SSEEventData;
+    createdAt: number;
+}
+
+interface ChannelBuffer {
+    events: BufferedEvent[];
+    // Highest id dropped, for size or age; a client behind it has missed events for good
+    evictedUpToId: number;
+    lastEventAt: number;
+}
+
+export type ReplayResult =
+    | { status: 'ok'; events: BufferedEvent[] }
+    | { status: 'resync' };
+
+// Replayable events of the last minutes, by channel. Ids come from the SSE broker.
+// Whether a client can resume depends on what the buffer still covers, not on how long it was away.
+class SSEReplayBuffer {
+    private lastId = 0;
+    // Highest id evicted from the channels that were forgotten
+    private forgottenUpToId = 0;
+    private channels = new Map<string, ChannelBuffer>();
+
+    // Start over, when the broker and so the ids change
+    reset(): void {
+        this.lastId = 0;
+        this.forgottenUpToId = 0;
+        this.channels.clear();
+    }
+
+    record(channel: string, id: number, event: SSEEventData): void {
+        this.lastId = Math.max(this.lastId, id);
+        if (!REPLAYABLE_EVENT_TYPES.includes(event.type)) return;
+
+        let buffer = this.channels.get(channel);
+        if (!buffer) {
+            buffer = { events: [], evictedUpToId: 0, lastEventAt: 0 };
+            this.channels.set(channel, buffer);
+        }
+
+        const now = Date.now();
+        buffer.events.push({ id, channel, event, createdAt: now });
+        buffer.lastEventAt = now;
+
+        // Keep each channel bounded in size
+        while (buffer.events.length > MAX_EVENTS_PER_CHANNEL) {
+            buffer.evictedUpToId = Math.max(buffer.evictedUpToId, buffer.events.shift()!.id);
+        }
+    }
+
+    // Events published on the given channels after lastEventId, oldest first.
+    // `coveredAfterId` is the broker's start id: every later event went through this buffer.
+    getEventsSince(lastEventId: number, channels: Iterable<string>, coveredAfterId: number | null): ReplayResult {
+        // Ids from before the broker started, or that this instance has not seen yet, cannot be matched
+        if (coveredAfterId === null || lastEventId < coveredAfterId || lastEventId > Math.max(this.lastId, coveredAfterId)) {
+            log.debug('Last event id outside of buffer range', { lastEventId, coveredAfterId, lastId: this.lastId });
+            return { status: 'resync' };
+        }
+
+        if (this.forgottenUpToId > lastEventId) {
+            log.debug('Replay gap too large', { lastEventId, forgottenUpToId: this.forgottenUpToId });
+            return { status: 'resync' };
+        }
+
+        const events: BufferedEvent[] = [];
+        for (const channel of channels) {
+            const buffer = this.channels.get(channel);
+            if (!buffer) continue;
+
+            if (buffer.evictedUpToId > lastEventId) {
+                log.debug('Replay gap too large', { channel, lastEventId, evictedUpToId: buffer.evictedUpToId });
+                return { status: 'resync' };
+            }
+            events.push(...buffer.events.filter(event => event.id > lastEventId));
+        }
+
+        return { status: 'ok', events: events.sort((a, b) => a.id - b.id) };
+    }
+
+    // Drop expired events, then the channels nobody published on for a long time
+    prune(): void {
+        const now = Date.now();
+        for (const [channel, buffer] of this.channels) {
+            const expired = buffer.events.filter(event => event.createdAt < now - MAX_EVENT_AGE_MS);
+            if (expired.length > 0) {
+                buffer.evictedUpToId = Math.max(buffer.evictedUpToId, ...expired.map(event => event.id));
+                buffer.events = buffer.events.slice(expired.length);
+            }
+            // A forgotten channel's evictions apply to every channel, which is coarser but bounded
+            if (buffer.events.length === 0 && buffer.lastEventAt < now - MAX_CHANNEL_IDLE_MS) {
+                this.forgottenUpToId = Math.max(this.forgottenUpToId, buffer.evictedUpToId);
+                this.channels.delete(channel);
+            }
+        }
+    }
+}
+
+export const sseReplayBuffer = new SSEReplayBuffer();
@@ -1,18 +1,95 @@
-import type { User, Message, EnrichedMessage, SafeUser } from '../types/chat';
-import { createSafeUser } from '../types/chat';
+import type { User, Message, EnrichedMessage, SafeUser, RoomSummary, TypingEvent, MessageDeletedEvent, SanctionAppliedEvent, ReportCreatedEvent, LoginFailureSummary, BuddyList, PresenceDelta, NotificationPreferences, BuddyNotificationPreferences, MentionEvent } from '../types/chat';
+import { createSafeUser, DEFAULT_NOTIFICATION_PREFERENCES } from '../types/chat';
 import type { 
     SendMessageRequest, 
     SendMessageResponse, 
-    GetMessagesResponse 
+    GetMessagesResponse,
+    GetMessagesResponseSuccess,
+    TextPreferencesResponse,
+    CreateRoomResponse,
+    ListRoomsResponse,
+    RoomMembershipResponse,
+    DirectRoomResponse,
+    TypingRequest,
+    EditMessageRequest,
+    EditMessageResponse,
+    DeleteMessageResponse,
+    SearchMessagesResponse,
+    ModerationResponse,
+    ModerationOverviewResponse,
+    AnnouncementRequest,
+    ReportMessageRequest,
+    ReportMessageResponse,
+    ContentRuleRequest,
+    UpdateContentRuleRequest,
+    ContentRuleResponse,
+    ContentRulesResponse,
+    ListSessionsResponse,
+    RevokeSessionsResponse,
+    ChangePasswordRequest,
+    DeleteAccountRequest,
+    AccountResponse,
+    UpdateStatusRequest,
+    UpdateStatusResponse,
+    AddBuddyRequest,
+    BuddyGroupRequest,
+    BuddyListResponse,
+    NotificationPreferencesResponse
 } from '../types/payloads';
+import type { TextStyle, UserTextPreferences } from '../types/text-formatting';
 import { invalidate } from '$app/navigation';
+import { formatFrenchDateTime } from '$lib/utils/date-format';
+import { applyBuddyPresence, compareBuddies } from '$lib/utils/buddy-list';
 import { env } from '$env/dynamic/public';
 
+// An open instant message window backed by a direct room
+export interface DirectConversation {
+    roomId: string;
+    peerId: string;
+    messages: Message[];
+}
+
+// Users currently typing in a room, keyed by user id
+type RoomTypingUsers = Record<string, { nickname: string; expiresAt: number }>;
+
+// Filters of a message search; dates are timestamps
+export interface MessageSearchQuery {
+    q: string;
+    roomId?: string;
+    sender?: string;
+    from?: number;
+    to?: number;
+    offset?: number;
+}
+
+// Composer typing notifications: refresh while typing, stop after a pause
+const TYPING_REFRESH_MS = 2500;
+const TYPING_IDLE_MS = 3000;
+
+// Alerts played while the chat is in the background
+const SOUNDS = {
+    buddyIn: '/sounds/buddy-in.wav',
+    buddyOut: '/sounds/buddy-out.wav',
+    im: '/sounds/im.wav'
+};
+// Window id of the main chat window, IM windows use their room id
+export const MAIN_WINDOW_ID = 'chat';
+const NOTIFICATION_BODY_LENGTH = 100;
+const MAX_MENTION_CANDIDATES = 6;
+
+function toNotificationBody(content: string): string {
+    return content.length > NOTIFICATION_BODY_LENGTH
+        ? `${content.slice(0, NOTIFICATION_BODY_LENGTH)}…`
+        : content;
+}
+
 // Use the public environment variable with a fallback
 const DEFAULT_CHAT_ROOM_ID = env.PUBLIC_DEFAULT_CHAT_ROOM_ID || '00000000-0000-0000-0000-000000000001';
 
 class ChatState {
     private users = $state<SafeUser[]>([]);
+    // The current user's own buddy list, by group
+    private buddyList = $state<BuddyList | null>(null);
     private messages = $state<Message[]>([]);
     private currentUser = $state<SafeUser | null>(null);
     private eventSource: EventSource | null = null;
@@ -23,6 +100,14 @@ class ChatState {
     private currentRoomId = $state<string>(DEFAULT_CHAT_ROOM_ID);
     private userCache = $state<Record<string, SafeUser>>({});
     private sseError = $state<string | null>(null);
+    // Last sanction applied to the current user by a moderator, shown until dismissed
+    private sanctionNotice = $state<string | null>(null);
+    // Failed logins on the account since the previous successful one, shown until dismissed
+    private securityNotice = $state<string | null>(null);
+    // Last mention of the current user outside of the room they were looking at, shown until opened or dismissed
+    private mentionNotice = $state<MentionEvent | null>(null);
+    // Latest report received by a moderator, lets the console refresh itself
+    private lastReport = $state<ReportCreatedEvent | null>(null);
     private sseRetryAfter = $state<number | null>(null);
     private connectionTimeout: ReturnType<typeof setTimeout> | null = null;
     private isReconnecting = $state(false);
@@ -33,10 +118,32 @@ class ChatState {
     private _lastEnrichmentKey: string = '';
     // Flag to avoid re-registering SSE event handlers
     private sseHandlersRegistered = false;
-    private lastBuddyListUpdate = 0;
-    private lastBuddyListHash = '';
+    // Set while the whole buddy list is fetched again after missed presence deltas
+    private isRefreshingBuddyList = false;
     private hasMoreMessages = $state(false);
+    // Set when the loaded messages stop before the latest ones (after a jump into the history)
+    private hasNewerMessagesToLoad = $state(false);
+    // Opaque cursors returned by the messages API for the loaded range
+    private olderMessagesCursor: string | null = null;
+    private newerMessagesCursor: string | null = null;
     private publicPollingInterval: ReturnType<typeof setInterval> | null = null;
+    private textPreferences = $state<UserTextPreferences | null>(null);
+    private notificationPreferences = $state<NotificationPreferences>({ ...DEFAULT_NOTIFICATION_PREFERENCES, buddies: {} });
+    // IMs and mentions received while the chat was in the background, shown in the tab title
+    private unreadAlertCount = $state(0);
+    // Windows minimized by the user, by window id
+    private minimizedWindows: Record<string, boolean> = {};
+    private rooms = $state<RoomSummary[]>([]);
+    private unreadCounts = $state<Record<string, number>>({});
+    private directConversations = $state<DirectConversation[]>([]);
+    // Id of the last SSE event received, sent back on reconnect to replay what was missed
+    private lastEventId: string | null = null;
+    private typingUsers = $state<Record<string, RoomTypingUsers>>({});
+    // Message to bring into view after a jump (e.g. from a search result)
+    private highlightedMessageId = $state<string | null>(null);
+    private typingExpiryTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+    private lastTypingSent: Record<string, number> = {};
+    private typingIdleTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
 
     public async reinitialize() {
         if (this.isInitializing) {
@@ -52,6 +159,8 @@ class ChatState {
         this.reconnectAttempts = 0;
         this.reconnectDelay = 1000;
         this.messages = [];
+        // Everything is fetched again, there is nothing to replay
+        this.lastEventId = null;
         // Ensure currentRoomId is set
         this.currentRoomId = DEFAULT_CHAT_ROOM_ID;
         
@@ -63,7 +172,10 @@ class ChatState {
             // Then initialize messages and room users
             await Promise.all([
                 this.initializeMessages(),
-                this.initializeRoomUsers()
+                this.initializeRoomUsers(),
+                this.loadTextPreferences(),
+                this.loadNotificationPreferences(),
+                this.loadRooms()
             ]);
         }
         this.isInitializing = false;
@@ -76,6 +188,65 @@ class ChatState {
         };
     }
 
+    getSanctionNotice() {
+        return this.sanctionNotice;
+    }
+
+    clearSanctionNotice() {
+        this.sanctionNotice = null;
+    }
+
+    getSecurityNotice() {
+        return this.securityNotice;
+    }
+
+    clearSecurityNotice() {
+        this.securityNotice = null;
+    }
+
+    getMentionNotice() {
+        return this.mentionNotice;
+    }
+
+    clearMentionNotice() {
+        this.mentionNotice = null;
+    }
+
+    // Show the message of the pending mention in its room
+    async openMentionNotice() {
+        if (!this.mentionNotice) return;
+        const { message } = this.mentionNotice;
+        this.mentionNotice = null;
+        await this.jumpToMessage(message);
+    }
+
+    setFailedLoginAttempts(attempts: LoginFailureSummary[] | undefined) {
+        if (!attempts || attempts.length === 0) {
+            this.securityNotice = null;
+            return;
+        }
+        const last = formatFrenchDateTime(new Date(attempts[attempts.length - 1].createdAt));
+        this.securityNotice = attempts.length === 1
+            ? `Une tentative de connexion échouée a eu lieu sur votre compte le ${last}.`
+            : `${attempts.length} tentatives de connexion échouées ont eu lieu sur votre compte depuis votre dernière connexion, la dernière le ${last}.`;
+    }
+
+    private async handleSanction(sanction: SanctionAppliedEvent) {
+        const until = sanction.expiresAt ? ` jusqu'au ${formatFrenchDateTime(new Date(sanction.expiresAt))}` : '';
+        const reason = sanction.reason ? ` Motif : ${sanction.reason}` : '';
+        if (sanction.action === 'mute') {
+            this.sanctionNotice = `Un modérateur vous a rendu muet${until}.${reason}`;
+            return;
+        }
+
+        this.sanctionNotice = sanction.action === 'kick'
+            ? `Vous avez été expulsé par un modérateur.${reason}`
+            : `Vous avez été banni${until}.${reason}`;
+        // The server already closed our sessions
+        await this.setCurrentUser(null);
+        await invalidate('app:session');
+    }
+
     // User methods
     getCurrentUser() {
         return this.currentUser;
@@ -130,7 +301,18 @@ class ChatState {
                 }
                 this.messages = [];
                 this.users = [];
+                this.buddyList = null;
                 this.userCache = {};
+                this.textPreferences = null;
+                this.notificationPreferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, buddies: {} };
+                this.unreadAlertCount = 0;
+                this.mentionNotice = null;
+                this.minimizedWindows = {};
+                this.rooms = [];
+                this.unreadCounts = {};
+                this.directConversations = [];
+                this.lastEventId = null;
+                this.clearTypingState();
             }
         } finally {
             this.isSettingUser = false;
@@ -158,13 +340,14 @@ class ChatState {
             }
 
             console.debug('Fetched room buddy list:', data.buddyList);
+            this.buddyList = data.buddyList;
             // Merge fetched buddy list with existing cached users to preserve user details even if offline
-            const mergedUsers = new Map<string, typeof data.buddyList[0]>();
+            const mergedUsers = new Map<string, SafeUser>();
             // Add existing cached users
             Object.values(this.userCache).forEach((user) => mergedUsers.set(user.id, user));
 
             // Overwrite/add with fetched buddy list
-            data.buddyList.forEach((user: typeof data.buddyList[0]) => {
+            this.getBuddies().forEach((user) => {
                 mergedUsers.set(user.id, user);
             });
 
@@ -193,6 +376,79 @@ class ChatState {
         });
     }
 
+    // Users to suggest when `@query` is typed in the composer: the known users and the current room's
+    // senders, online first
+    getMentionCandidates(query: string): SafeUser[] {
+        const prefix = query.toLowerCase();
+        const candidates = new Map(this.users.map(user => [user.id, user]));
+        this.messages.forEach(message => {
+            const sender = this.userCache[message.senderId];
+            if (sender && !candidates.has(sender.id)) candidates.set(sender.id, sender);
+        });
+        return Array.from(candidates.values())
+            .filter(user => user.id !== this.currentUser?.id
+                && /^[a-zA-Z0-9_-]+$/.test(user.nickname)
+                && user.nickname.toLowerCase().startsWith(prefix))
+            .sort(compareBuddies)
+            .slice(0, MAX_MENTION_CANDIDATES);
+    }
+
+    getBuddyList() {
+        return this.buddyList;
+    }
+
+    // Accepted buddies of every group
+    getBuddies(): SafeUser[] {
+        return this.buddyList?.groups.flatMap(group => group.buddies) ?? [];
+    }
+
+    // Replace the buddy list with a full one from the server
+    updateBuddyList(buddyList: BuddyList) {
+        const knownVersion = this.buddyList?.version ?? 0;
+        this.buddyList = buddyList;
+        this.updateOnlineUsers(this.getBuddies());
+        // The list was read before deltas we already applied, fetch one that includes them
+        if (buddyList.version < knownVersion) {
+            void this.refreshBuddyList();
+        }
+    }
+
+    // Apply one buddy's presence change, or fetch the whole list when deltas were missed
+    applyPresenceDelta(delta: PresenceDelta) {
+        if (!this.buddyList || delta.version <= this.buddyList.version) return;
+        if (delta.previousVersion !== this.buddyList.version) {
+            console.debug('Presence delta out of sequence, fetching the buddy list', {
+                expected: this.buddyList.version,
+                previousVersion: delta.previousVersion
+            });
+            void this.refreshBuddyList();
+            return;
+        }
+        const previous = this.getBuddies().find(buddy => buddy.id === delta.user.id);
+        this.buddyList = applyBuddyPresence(this.buddyList, delta.user, delta.version);
+        this.updateOnlineUsers([delta.user]);
+        if (previous) {
+            this.alertPresenceChange(previous, delta.user);
+        }
+    }
+
+    private async refreshBuddyList() {
+        if (this.isRefreshingBuddyList) return;
+        this.isRefreshingBuddyList = true;
+        try {
+            await this.requestBuddyList('/api/buddies', 'GET');
+        } catch (error) {
+            console.debug('Error refreshing buddy list:', error);
+        } finally {
+            this.isRefreshingBuddyList = false;
+        }
+    }
+
+    // Side-effect free lookup, usable inside $derived
+    getKnownUser(userId: string): SafeUser | null {
+        return this.userCache[userId] ?? null;
+    }
+
     getUserById(userId: string) {
         // First check the cache
         if (this.userCache[userId]) {
@@ -204,6 +460,7 @@ class ChatState {
             id: userId,
             nickname: 'Unknown User',
             status: 'offline',
+            role: 'user',
             lastSeen: null,
             avatarUrl: null
         };
@@ -305,7 +562,8 @@ class ChatState {
 
     // Message methods
     getMessages() {
-        const key = this.messages.map(m => m.id).join(',') + '|' + Object.keys(this.userCache).sort().join(',');
+        // Edits and deletions change a message without changing its id
+        const key = this.messages.map(m => `${m.id}:${m.editedAt ?? ''}:${m.deletedAt ?? ''}`).join(',') + '|' + Object.keys(this.userCache).sort().join(',');
         if (key === this._lastEnrichmentKey && this._memoizedEnrichedMessages !== null) {
             return this._memoizedEnrichedMessages;
         }
@@ -382,42 +640,91 @@ class ChatState {
         });
     }
 
-    // Add method to update online users for public access
+    // Merge users whose presence changed, from a full buddy list or a single delta
     updateOnlineUsers(users: (User | SafeUser)[]) {
-        const now = Date.now();
-        // Convert all users to SafeUser and create a hash
         const safeUsers = users.map(user => 'password' in user ? createSafeUser(user) : user);
-        const newHash = JSON.stringify(safeUsers);
-        
-        // Only update if the data has changed
-        if (newHash !== this.lastBuddyListHash) {
-            const statusCounts = safeUsers.reduce((acc, user) => {
-                acc[user.status] = (acc[user.status] || 0) + 1;
-                return acc;
-            }, {} as Record<string, number>);
-
-            console.debug('Updating online users (data changed):', {
-                total: safeUsers.length,
-                byStatus: statusCounts,
-                timestamp: new Date(now).toISOString()
-            });
-
-            this.users = safeUsers;
-            // Also update cache
-            safeUsers.forEach(user => {
-                this.userCache[user.id] = user;
-            });
-            this.lastBuddyListHash = newHash;
-            this.lastBuddyListUpdate = now;
-        }
+        const updatedUsers = new Map(this.users.map(user => [user.id, user]));
+        safeUsers.forEach(user => {
+            updatedUsers.set(user.id, user);
+            this.userCache[user.id] = user;
+        });
+        this.users = Array.from(updatedUsers.values());
+        console.debug('Updated online users:', { changed: safeUsers.length, total: this.users.length });
     }
 
     // Add method to update messages for public access
-    updateMessages(messages: Message[]) {
+    updateMessages(messages: Message[], page?: Pick<GetMessagesResponseSuccess, 'hasMoreBefore' | 'beforeCursor'>) {
         // Deduplicate the messages by their id in case duplicates exist
         const uniqueMessages = Array.from(new Map(messages.map(msg => [msg.id, msg])).values());
         // Sort messages in ascending order (oldest first, newest at bottom)
         this.messages = uniqueMessages.sort((a, b) => a.timestamp - b.timestamp);
+        if (page) {
+            this.hasMoreMessages = page.hasMoreBefore;
+            this.olderMessagesCursor = page.beforeCursor ?? null;
+            this.hasNewerMessagesToLoad = false;
+        }
+    }
+
+    hasOlderMessages() {
+        return this.hasMoreMessages;
+    }
+
+    hasNewerMessages() {
+        return this.hasNewerMessagesToLoad;
+    }
+
+    private messagesUrl(params: Record<string, string>) {
+        const query = new URLSearchParams({ roomId: this.currentRoomId, ...params });
+        if (!this.currentUser) {
+            query.append('public', 'true');
+        }
+        return `/api/chat/messages?${query}`;
+    }
+
+    // Load the page before the oldest loaded message; returns the number of messages added
+    async loadOlderMessages(): Promise<number> {
+        if (!this.hasMoreMessages || !this.olderMessagesCursor) return 0;
+
+        const roomId = this.currentRoomId;
+        const response = await fetch(this.messagesUrl({ before: this.olderMessagesCursor }), { credentials: 'include' });
+        if (!response.ok) throw new Error('Failed to fetch messages');
+        const data = await response.json() as GetMessagesResponse;
+        if (!data.success) {
+            throw new Error(data.error);
+        }
+        // Ignore pages of a room we left meanwhile
+        if (roomId !== this.currentRoomId) return 0;
+
+        this.prependMessages(data.messages, data.hasMoreBefore);
+        this.olderMessagesCursor = data.beforeCursor ?? this.olderMessagesCursor;
+        return data.messages.length;
+    }
+
+    // Load the page after the newest loaded message when browsing the history
+    async loadNewerMessages(): Promise<number> {
+        if (!this.hasNewerMessagesToLoad || !this.newerMessagesCursor) return 0;
+
+        const roomId = this.currentRoomId;
+        const response = await fetch(this.messagesUrl({ after: this.newerMessagesCursor }), { credentials: 'include' });
+        if (!response.ok) throw new Error('Failed to fetch messages');
+        const data = await response.json() as GetMessagesResponse;
+        if (!data.success) {
+            throw new Error(data.error);
+        }
+        if (roomId !== this.currentRoomId) return 0;
+
+        await Promise.all(Array.from(new Set(data.messages.map(m => m.senderId))).map(id => this.ensureUserData(id)));
+        const known = new Set(this.messages.map(m => m.id));
+        this.messages = [...this.messages, ...data.messages.filter(m => !known.has(m.id))];
+        this.hasNewerMessagesToLoad = data.hasMoreAfter;
+        this.newerMessagesCursor = data.afterCursor ?? this.newerMessagesCursor;
+        return data.messages.length;
+    }
+
+    // Leave the history and show the latest messages again
+    async jumpToLatest() {
+        this.highlightedMessageId = null;
+        await this.initializeMessages();
     }
 
     // Note: For authenticated users, we no longer use the message cache. Messages are fetched directly from the database, and real-time updates are handled via SSE.
@@ -471,10 +778,11 @@ class ChatState {
             // Sort messages in ascending order (oldest first, most recent at the bottom)
             this.messages = data.messages.slice().sort((a, b) => a.timestamp - b.timestamp);
             
-            // Update hasMore based on response
-            if ('hasMore' in data) {
-                this.hasMoreMessages = data.hasMore;
-            }
+            // Update pagination state based on response
+            this.hasMoreMessages = data.hasMoreBefore;
+            this.hasNewerMessagesToLoad = false;
+            this.olderMessagesCursor = data.beforeCursor ?? null;
+            this.newerMessagesCursor = data.afterCursor ?? null;
 
             console.debug('Messages initialized:', {
                 count: data.messages.length,
@@ -488,177 +796,1236 @@ class ChatState {
         }
     }
 
-    async sendMessage(content: string, type: Message['type'] = 'chat', textStyle?: any): Promise<SendMessageResponse> {
-        const user = this.getCurrentUser();
-        if (!user) {
-            console.debug('Cannot send message: No current user');
-            return {
-                success: false,
-                error: 'Not logged in'
-            };
-        }
-        
-        try {
-            const payload: SendMessageRequest = {
-                content,
-                type,
-                userId: user.id,
-                chatRoomId: DEFAULT_CHAT_ROOM_ID
-            };
-            
-            // Add styleData if textStyle is provided
-            if (textStyle) {
-                (payload as any).styleData = JSON.stringify(textStyle);
-            }
-
-            console.debug('Sending message with payload:', payload);
+    // Room methods
+    getRooms() {
+        return this.rooms;
+    }
 
-            const response = await fetch('/api/chat/messages', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                credentials: 'include',
-                body: JSON.stringify(payload)
-            });
+    getCurrentRoomId() {
+        return this.currentRoomId;
+    }
 
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.error || 'Failed to save message');
-            }
+    getUnreadCount(roomId: string) {
+        return this.unreadCounts[roomId] ?? 0;
+    }
 
-            const data = await response.json() as SendMessageResponse;
+    async loadRooms() {
+        try {
+            const response = await fetch('/api/rooms', { credentials: 'include' });
+            const data = await response.json() as ListRoomsResponse;
             if (!data.success) {
                 throw new Error(data.error);
             }
-
-            console.debug('Message sent successfully:', data.message);
-            await invalidate('chat:messages');
-            return data;
+            this.rooms = data.rooms;
+            console.debug('Rooms loaded:', { count: data.rooms.length });
         } catch (error) {
-            console.debug('Error sending message:', error);
-            return {
-                success: false,
-                error: 'Failed to send message'
-            };
+            console.debug('Error loading rooms:', error);
         }
     }
 
-    private setupSSE() {
-        // Prevent creating multiple SSE connections if one is already active.
-        if (this.eventSource && this.eventSource.readyState !== EventSource.CLOSED) {
-            console.debug('setupSSE: Active SSE connection exists, skipping setup.');
+    // Switch the active room without reloading the page or the SSE connection
+    async switchRoom(roomId: string) {
+        if (roomId === this.currentRoomId) {
+            console.debug('Already in room, skipping switch:', roomId);
             return;
         }
-        // Clear any existing timeouts
-        if (this.connectionTimeout) {
-            clearTimeout(this.connectionTimeout);
-            this.connectionTimeout = null;
+        console.debug('Switching room:', { from: this.currentRoomId, to: roomId });
+        this.currentRoomId = roomId;
+        this.messages = [];
+        this.hasMoreMessages = false;
+        this.hasNewerMessagesToLoad = false;
+        this.unreadCounts[roomId] = 0;
+        await this.initializeMessages();
+    }
+
+    async createRoom(name: string, memberIds: string[] = []) {
+        const response = await fetch('/api/rooms', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            credentials: 'include',
+            body: JSON.stringify({ name, memberIds })
+        });
+        const data = await response.json() as CreateRoomResponse;
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to create room');
         }
-        
-        if (this.connectionAttemptTimeout) {
-            clearTimeout(this.connectionAttemptTimeout);
-            this.connectionAttemptTimeout = null;
+        console.debug('Room created:', data.room);
+        await this.loadRooms();
+        await this.switchRoom(data.room.id);
+        return data.room;
+    }
+
+    async joinRoom(roomId: string) {
+        const response = await fetch(`/api/rooms/${roomId}/join`, {
+            method: 'POST',
+            credentials: 'include'
+        });
+        const data = await response.json() as RoomMembershipResponse;
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to join room');
         }
-        
-        // Debounce connection attempts
-        this.connectionAttemptTimeout = setTimeout(() => {
-            if (!this.currentUser) {
-                console.debug('No current user, skipping SSE connection');
-                return;
-            }
-            
-            if (this.isConnecting) {
-                console.debug('Already connecting to SSE, skipping');
-                return;
-            }
-            
-            this.connectSSE();
-        }, 1000);
+        console.debug('Joined room:', roomId);
+        await this.loadRooms();
+        await this.switchRoom(roomId);
     }
 
-    private async connectSSE() {
-        if (this.isConnecting) {
-            console.debug('Already connecting to SSE, skipping');
-            return;
+    async leaveRoom(roomId: string) {
+        const response = await fetch(`/api/rooms/${roomId}/leave`, {
+            method: 'POST',
+            credentials: 'include'
+        });
+        const data = await response.json() as RoomMembershipResponse;
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to leave room');
         }
-        
-        this.isConnecting = true;
-        
+        console.debug('Left room:', roomId);
+        if (this.currentRoomId === roomId) {
+            await this.switchRoom(DEFAULT_CHAT_ROOM_ID);
+        }
+        await this.loadRooms();
+    }
+
+    // Direct (instant message) methods
+    getDirectConversations() {
+        return this.directConversations;
+    }
+
+    getDirectMessages(roomId: string): EnrichedMessage[] {
+        const conversation = this.directConversations.find(c => c.roomId === roomId);
+        return conversation ? this.enrichMessages(conversation.messages) : [];
+    }
+
+    private async fetchRoomMessages(roomId: string): Promise<Message[]> {
+        const params = new URLSearchParams({ roomId });
+        const response = await fetch(`/api/chat/messages?${params}`, { credentials: 'include' });
+        if (!response.ok) throw new Error('Failed to fetch messages');
+        const data = await response.json() as GetMessagesResponse;
+        if (!data.success) {
+            throw new Error(data.error);
+        }
+        return data.messages.slice().sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    private async addDirectConversation(roomId: string, peerId: string) {
+        if (this.directConversations.some(c => c.roomId === roomId)) return;
+        // Register the window first so messages received meanwhile are not lost
+        this.directConversations = [...this.directConversations, { roomId, peerId, messages: [] }];
+        await this.ensureUserData(peerId);
         try {
-            // Ensure clean disconnect of any existing connection
-            if (this.eventSource) {
-                console.debug('Closing existing SSE connection');
-                this.eventSource.close();
-                this.eventSource = null;
-            }
-            
-            console.debug('Connecting to SSE...');
-            this.eventSource = new EventSource('/api/sse', { withCredentials: true });
-            // Reset the handlers flag for the new connection
-            this.sseHandlersRegistered = false;
-            
-            this.eventSource.onopen = () => {
-                console.debug('SSE connection established');
-                this.reconnectAttempts = 0;
-                this.reconnectDelay = 1000;
-                this.sseError = null;
-                this.sseRetryAfter = null;
-                this.isReconnecting = false;
-            };
-            
-            // Set up error handling
-            this.eventSource.onerror = (error) => {
-                console.debug('SSE connection error:', error);
-                if (this.eventSource?.readyState === EventSource.CLOSED) {
-                    this.handleDisconnection();
-                }
-            };
-            
-            // Register event handlers (only once)
-            this.setupMessageHandlers();
-            
+            const history = await this.fetchRoomMessages(roomId);
+            this.directConversations = this.directConversations.map(c => c.roomId === roomId
+                ? { ...c, messages: Array.from(new Map([...history, ...c.messages].map(m => [m.id, m])).values()).sort((a, b) => a.timestamp - b.timestamp) }
+                : c
+            );
+            console.debug('Direct conversation history loaded:', { roomId, count: history.length });
         } catch (error) {
-            console.debug('Error setting up SSE connection:', error);
-            this.handleDisconnection();
-        } finally {
-            this.isConnecting = false;
+            console.debug('Error loading direct conversation history:', error);
         }
     }
 
-    // Register SSE event handlers only once per connection.
-    private setupMessageHandlers() {
-        if (this.sseHandlersRegistered || !this.eventSource) {
-            return;
+    // Open the IM window with a buddy, creating the direct room on first use
+    async openDirectConversation(peerId: string) {
+        const existing = this.directConversations.find(c => c.peerId === peerId);
+        if (existing) {
+            console.debug('Direct conversation already open:', existing.roomId);
+            return existing.roomId;
         }
 
-        // Listen for chat messages
-        this.eventSource.addEventListener('chatMessage', async (event: MessageEvent) => {
-            try {
-                const messageData = JSON.parse(event.data) as Message;
-                console.debug('Received chat message via SSE:', messageData);
-                // Deduplicate and update messages array with the new message
-                this.messages = Array.from(new Map([...this.messages, messageData].map(m => [m.id, m])).values());
-                // Sort messages so the newest are at the bottom
-                this.messages.sort((a, b) => a.timestamp - b.timestamp);
-                // Ensure the sender's data is available
-                await this.ensureUserData(messageData.senderId);
-            } catch (error) {
-                console.debug('Error handling SSE chat message:', error);
-            }
-        });
-        
-        // Modify buddy list update handler
-        this.eventSource.addEventListener('buddyListUpdate', async (event: MessageEvent) => {
-            try {
-                const buddyList = JSON.parse(event.data) as SafeUser[];
-                this.updateOnlineUsers(buddyList);
-            } catch (error) {
-                console.debug('Error handling buddy list update via SSE:', error);
-            }
+        const response = await fetch('/api/rooms/direct', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            credentials: 'include',
+            body: JSON.stringify({ userId: peerId })
         });
+        const data = await response.json() as DirectRoomResponse;
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to open conversation');
+        }
 
-        this.sseHandlersRegistered = true;
+        this.userCache[data.peer.id] = this.userCache[data.peer.id] ?? data.peer;
+        console.debug('Opening direct conversation:', { roomId: data.room.id, peerId });
+        await this.addDirectConversation(data.room.id, peerId);
+        return data.room.id;
+    }
+
+    closeDirectConversation(roomId: string) {
+        console.debug('Closing direct conversation:', roomId);
+        this.directConversations = this.directConversations.filter(c => c.roomId !== roomId);
+        delete this.minimizedWindows[roomId];
+    }
+
+    async sendDirectMessage(roomId: string, content: string, textStyle?: TextStyle): Promise<SendMessageResponse> {
+        return this.postMessage(roomId, content, 'chat', textStyle);
+    }
+
+    private appendDirectMessage(message: Message) {
+        this.directConversations = this.directConversations.map(c => c.roomId === message.chatRoomId
+            ? { ...c, messages: Array.from(new Map([...c.messages, message].map(m => [m.id, m])).values()).sort((a, b) => a.timestamp - b.timestamp) }
+            : c
+        );
+    }
+
+    // Route a message that does not belong to the active room
+    private async handleBackgroundMessage(message: Message) {
+        if (this.directConversations.some(c => c.roomId === message.chatRoomId)) {
+            this.appendDirectMessage(message);
+            await this.ensureUserData(message.senderId);
+            this.alertDirectMessage(message);
+            return;
+        }
+
+        // A message from an unknown room usually means someone just started an IM with us
+        if (!this.rooms.some(room => room.id === message.chatRoomId)) {
+            await this.loadRooms();
+        }
+
+        const room = this.rooms.find(r => r.id === message.chatRoomId);
+        if (!room) {
+            console.debug('Ignoring message for a room we do not belong to:', message.chatRoomId);
+            return;
+        }
+
+        if (room.type === 'direct') {
+            // Pop the IM window open like AIM did on incoming messages
+            const peerId = room.peerId ?? message.senderId;
+            await this.addDirectConversation(room.id, peerId);
+            this.appendDirectMessage(message);
+            this.alertDirectMessage(message);
+            return;
+        }
+
+        if (message.senderId !== this.currentUser?.id) {
+            this.unreadCounts[room.id] = (this.unreadCounts[room.id] ?? 0) + 1;
+        }
+    }
+
+    // Search methods
+    async searchMessages(query: MessageSearchQuery): Promise<SearchMessagesResponse> {
+        const params = new URLSearchParams();
+        Object.entries(query).forEach(([key, value]) => {
+            if (value !== undefined && value !== '') params.append(key, String(value));
+        });
+
+        try {
+            const response = await fetch(`/api/chat/search?${params}`, { credentials: 'include' });
+            return await response.json() as SearchMessagesResponse;
+        } catch (error) {
+            console.debug('Error searching messages:', error);
+            return { success: false, error: 'Search failed' };
+        }
+    }
+
+    getHighlightedMessageId() {
+        return this.highlightedMessageId;
+    }
+
+    clearHighlightedMessage() {
+        this.highlightedMessageId = null;
+    }
+
+    // Show a message in its context, switching rooms (or opening its IM window) if needed
+    async jumpToMessage(message: Message) {
+        const room = this.rooms.find(r => r.id === message.chatRoomId);
+        if (room?.type === 'direct' && room.peerId) {
+            await this.addDirectConversation(room.id, room.peerId);
+            return;
+        }
+
+        if (message.chatRoomId !== this.currentRoomId) {
+            this.currentRoomId = message.chatRoomId;
+            this.unreadCounts[message.chatRoomId] = 0;
+        }
+
+        try {
+            // Load the page of history centered on the message
+            const response = await fetch(this.messagesUrl({ around: message.id }), { credentials: 'include' });
+            if (!response.ok) throw new Error('Failed to fetch messages');
+            const data = await response.json() as GetMessagesResponse;
+            if (!data.success) {
+                throw new Error(data.error);
+            }
+
+            await Promise.all(Array.from(new Set(data.messages.map(m => m.senderId))).map(id => this.ensureUserData(id)));
+            this.messages = data.messages;
+            this.hasMoreMessages = data.hasMoreBefore;
+            this.hasNewerMessagesToLoad = data.hasMoreAfter;
+            this.olderMessagesCursor = data.beforeCursor ?? null;
+            this.newerMessagesCursor = data.afterCursor ?? null;
+            this.highlightedMessageId = message.id;
+        } catch (error) {
+            console.debug('Error jumping to message:', error);
+        }
+    }
+
+    // Message edition methods
+    async editMessage(messageId: string, content: string, textStyle?: TextStyle): Promise<EditMessageResponse> {
+        try {
+            const payload: EditMessageRequest = {
+                content,
+                styleData: textStyle ? JSON.stringify(textStyle) : undefined
+            };
+            const response = await fetch(`/api/chat/messages/${messageId}`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                credentials: 'include',
+                body: JSON.stringify(payload)
+            });
+            const data = await response.json() as EditMessageResponse;
+            if (data.success) {
+                this.replaceMessage(data.message);
+            }
+            return data;
+        } catch (error) {
+            console.debug('Error editing message:', error);
+            return { success: false, error: 'Failed to edit message' };
+        }
+    }
+
+    async deleteMessage(messageId: string): Promise<DeleteMessageResponse> {
+        try {
+            const response = await fetch(`/api/chat/messages/${messageId}`, {
+                method: 'DELETE',
+                credentials: 'include'
+            });
+            return await response.json() as DeleteMessageResponse;
+        } catch (error) {
+            console.debug('Error deleting message:', error);
+            return { success: false, error: 'Failed to delete message' };
+        }
+    }
+
+    async reportMessage(messageId: string, reason: string): Promise<ReportMessageResponse> {
+        try {
+            const payload: ReportMessageRequest = { reason };
+            const response = await fetch(`/api/chat/messages/${messageId}/report`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(payload)
+            });
+            return await response.json() as ReportMessageResponse;
+        } catch (error) {
+            console.debug('Error reporting message:', error);
+            return { success: false, error: 'Failed to report message' };
+        }
+    }
+
+    getLastReport() {
+        return this.lastReport;
+    }
+
+    // Moderators and admins get the moderation tools
+    isModerator() {
+        return this.currentUser?.role === 'moderator' || this.currentUser?.role === 'admin';
+    }
+
+    isAdmin() {
+        return this.currentUser?.role === 'admin';
+    }
+
+    async getModerationOverview(): Promise<ModerationOverviewResponse> {
+        try {
+            const response = await fetch('/api/moderation/overview', { credentials: 'include' });
+            return await response.json() as ModerationOverviewResponse;
+        } catch (error) {
+            console.debug('Error fetching moderation overview:', error);
+            return { success: false, error: 'Failed to fetch moderation overview' };
+        }
+    }
+
+    async liftSanction(sanctionId: string): Promise<ModerationResponse> {
+        try {
+            const response = await fetch(`/api/moderation/sanctions/${sanctionId}`, {
+                method: 'DELETE',
+                credentials: 'include'
+            });
+            return await response.json() as ModerationResponse;
+        } catch (error) {
+            console.debug('Error lifting sanction:', error);
+            return { success: false, error: 'Failed to lift sanction' };
+        }
+    }
+
+    // Delete any message as a moderator, unlike deleteMessage which is limited to the sender
+    async moderateDeleteMessage(messageId: string): Promise<ModerationResponse> {
+        try {
+            const response = await fetch(`/api/moderation/messages/${messageId}`, {
+                method: 'DELETE',
+                credentials: 'include'
+            });
+            return await response.json() as ModerationResponse;
+        } catch (error) {
+            console.debug('Error deleting message as moderator:', error);
+            return { success: false, error: 'Failed to delete message' };
+        }
+    }
+
+    async dismissReports(messageId: string): Promise<ModerationResponse> {
+        try {
+            const response = await fetch(`/api/moderation/reports/${messageId}`, {
+                method: 'DELETE',
+                credentials: 'include'
+            });
+            return await response.json() as ModerationResponse;
+        } catch (error) {
+            console.debug('Error dismissing reports:', error);
+            return { success: false, error: 'Failed to dismiss reports' };
+        }
+    }
+
+    async postAnnouncement(content: string): Promise<ModerationResponse> {
+        try {
+            const payload: AnnouncementRequest = { content };
+            const response = await fetch('/api/moderation/announcement', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(payload)
+            });
+            return await response.json() as ModerationResponse;
+        } catch (error) {
+            console.debug('Error posting announcement:', error);
+            return { success: false, error: 'Failed to post announcement' };
+        }
+    }
+
+    async getContentRules(): Promise<ContentRulesResponse> {
+        try {
+            const response = await fetch('/api/moderation/content-rules', { credentials: 'include' });
+            return await response.json() as ContentRulesResponse;
+        } catch (error) {
+            console.debug('Error fetching content rules:', error);
+            return { success: false, error: 'Failed to fetch content rules' };
+        }
+    }
+
+    async createContentRule(rule: ContentRuleRequest): Promise<ContentRuleResponse> {
+        try {
+            const response = await fetch('/api/moderation/content-rules', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(rule)
+            });
+            return await response.json() as ContentRuleResponse;
+        } catch (error) {
+            console.debug('Error creating content rule:', error);
+            return { success: false, error: 'Failed to create content rule' };
+        }
+    }
+
+    async updateContentRule(ruleId: string, changes: UpdateContentRuleRequest): Promise<ContentRuleResponse> {
+        try {
+            const response = await fetch(`/api/moderation/content-rules/${ruleId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes)
+            });
+            return await response.json() as ContentRuleResponse;
+        } catch (error) {
+            console.debug('Error updating content rule:', error);
+            return { success: false, error: 'Failed to update content rule' };
+        }
+    }
+
+    async deleteContentRule(ruleId: string): Promise<ContentRuleResponse> {
+        try {
+            const response = await fetch(`/api/moderation/content-rules/${ruleId}`, {
+                method: 'DELETE',
+                credentials: 'include'
+            });
+            return await response.json() as ContentRuleResponse;
+        } catch (error) {
+            console.debug('Error deleting content rule:', error);
+            return { success: false, error: 'Failed to delete content rule' };
+        }
+    }
+
+    // Sessions of the current user, to see where they are logged in
+    async getSessions(): Promise<ListSessionsResponse> {
+        try {
+            const response = await fetch('/api/session/list', { credentials: 'include' });
+            return await response.json() as ListSessionsResponse;
+        } catch (error) {
+            console.debug('Error fetching sessions:', error);
+            return { success: false, error: 'Failed to fetch sessions' };
+        }
+    }
+
+    // Revoking the current session logs this tab out
+    async revokeSession(sessionId: string, isCurrent: boolean): Promise<RevokeSessionsResponse> {
+        try {
+            const response = await fetch(`/api/session/${sessionId}`, {
+                method: 'DELETE',
+                credentials: 'include'
+            });
+            const data = await response.json() as RevokeSessionsResponse;
+            if (data.success && isCurrent) {
+                await this.setCurrentUser(null);
+                await invalidate('app:session');
+            }
+            return data;
+        } catch (error) {
+            console.debug('Error revoking session:', error);
+            return { success: false, error: 'Failed to revoke session' };
+        }
+    }
+
+    async revokeOtherSessions(): Promise<RevokeSessionsResponse> {
+        try {
+            const response = await fetch('/api/session/others', {
+                method: 'DELETE',
+                credentials: 'include'
+            });
+            return await response.json() as RevokeSessionsResponse;
+        } catch (error) {
+            console.debug('Error revoking other sessions:', error);
+            return { success: false, error: 'Failed to revoke sessions' };
+        }
+    }
+
+    // Other sessions are closed by the server once the password changed
+    async changePassword(request: ChangePasswordRequest): Promise<AccountResponse> {
+        try {
+            const response = await fetch('/api/account/password', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(request)
+            });
+            return await response.json() as AccountResponse;
+        } catch (error) {
+            console.debug('Error changing password:', error);
+            return { success: false, error: 'Failed to change password' };
+        }
+    }
+
+    async deleteAccount(password: string): Promise<AccountResponse> {
+        try {
+            const payload: DeleteAccountRequest = { password };
+            const response = await fetch('/api/account', {
+                method: 'DELETE',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(payload)
+            });
+            const data = await response.json() as AccountResponse;
+            if (data.success) {
+                await this.setCurrentUser(null);
+                await invalidate('app:session');
+            }
+            return data;
+        } catch (error) {
+            console.debug('Error deleting account:', error);
+            return { success: false, error: 'Failed to delete account' };
+        }
+    }
+
+    // Set or clear the status message and the away message; an away message marks the user away
+    async updatePresence(request: UpdateStatusRequest): Promise<UpdateStatusResponse> {
+        try {
+            const response = await fetch('/api/status', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(request)
+            });
+            const data = await response.json() as UpdateStatusResponse;
+            if (data.success && this.currentUser?.id === data.user.id) {
+                this.currentUser = data.user;
+                this.userCache[data.user.id] = data.user;
+                this.users = this.users.map(user => user.id === data.user.id ? data.user : user);
+            }
+            return data;
+        } catch (error) {
+            console.debug('Error updating presence:', error);
+            return { success: false, error: 'Failed to update status' };
+        }
+    }
+
+    // Buddy list methods: each returns the updated list, which is applied right away
+    private async requestBuddyList(url: string, method: string, body?: unknown): Promise<BuddyListResponse> {
+        const response = await fetch(url, {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: body === undefined ? undefined : JSON.stringify(body)
+        });
+        const data = await response.json() as BuddyListResponse;
+        if (data.success) {
+            this.updateBuddyList(data.buddyList);
+        }
+        return data;
+    }
+
+    async addBuddy(nickname: string, groupName?: string): Promise<BuddyListResponse> {
+        try {
+            const payload: AddBuddyRequest = { nickname, groupName };
+            return await this.requestBuddyList('/api/buddies', 'POST', payload);
+        } catch (error) {
+            console.debug('Error adding buddy:', error);
+            return { success: false, error: 'Failed to add buddy' };
+        }
+    }
+
+    async acceptBuddy(userId: string, groupName?: string): Promise<BuddyListResponse> {
+        try {
+            const payload: Partial<BuddyGroupRequest> = { groupName };
+            return await this.requestBuddyList(`/api/buddies/${userId}/accept`, 'POST', payload);
+        } catch (error) {
+            console.debug('Error accepting buddy request:', error);
+            return { success: false, error: 'Failed to accept buddy request' };
+        }
+    }
+
+    async moveBuddy(userId: string, groupName: string): Promise<BuddyListResponse> {
+        try {
+            const payload: BuddyGroupRequest = { groupName };
+            return await this.requestBuddyList(`/api/buddies/${userId}`, 'PATCH', payload);
+        } catch (error) {
+            console.debug('Error moving buddy:', error);
+            return { success: false, error: 'Failed to move buddy' };
+        }
+    }
+
+    // Also cancels or declines a request, and unblocks a blocked user
+    async removeBuddy(userId: string): Promise<BuddyListResponse> {
+        try {
+            return await this.requestBuddyList(`/api/buddies/${userId}`, 'DELETE');
+        } catch (error) {
+            console.debug('Error removing buddy:', error);
+            return { success: false, error: 'Failed to remove buddy' };
+        }
+    }
+
+    async blockUser(userId: string): Promise<BuddyListResponse> {
+        try {
+            return await this.requestBuddyList(`/api/buddies/${userId}/block`, 'POST');
+        } catch (error) {
+            console.debug('Error blocking user:', error);
+            return { success: false, error: 'Failed to block user' };
+        }
+    }
+
+    // Apply an edited version of a message wherever it is displayed
+    private replaceMessage(message: Message) {
+        if (this.messages.some(m => m.id === message.id)) {
+            this.messages = this.messages.map(m => m.id === message.id ? message : m);
+        }
+        this.directConversations = this.directConversations.map(c => c.roomId === message.chatRoomId
+            ? { ...c, messages: c.messages.map(m => m.id === message.id ? message : m) }
+            : c
+        );
+    }
+
+    private markMessageDeleted(event: MessageDeletedEvent) {
+        const tombstone = (message: Message): Message => ({
+            ...message,
+            content: '',
+            styleData: undefined,
+            hasFormatting: false,
+            mentions: undefined,
+            deletedAt: event.deletedAt
+        });
+        if (this.messages.some(m => m.id === event.messageId)) {
+            this.messages = this.messages.map(m => m.id === event.messageId ? tombstone(m) : m);
+        }
+        this.directConversations = this.directConversations.map(c => c.roomId === event.chatRoomId
+            ? { ...c, messages: c.messages.map(m => m.id === event.messageId ? tombstone(m) : m) }
+            : c
+        );
+    }
+
+    // Typing indicator methods
+    getTypingUsers(roomId: string): string[] {
+        return Object.values(this.typingUsers[roomId] ?? {}).map(entry => entry.nickname);
+    }
+
+    // Called by composers on every keystroke; notifications are throttled and stop after a pause
+    notifyTyping(roomId: string) {
+        if (!this.currentUser) return;
+
+        const now = Date.now();
+        if (now - (this.lastTypingSent[roomId] ?? 0) >= TYPING_REFRESH_MS) {
+            this.lastTypingSent[roomId] = now;
+            this.postTypingStatus(roomId, true);
+        }
+
+        const idleTimeout = this.typingIdleTimeouts.get(roomId);
+        if (idleTimeout) clearTimeout(idleTimeout);
+        this.typingIdleTimeouts.set(roomId, setTimeout(() => this.stopTyping(roomId), TYPING_IDLE_MS));
+    }
+
+    stopTyping(roomId: string) {
+        const idleTimeout = this.typingIdleTimeouts.get(roomId);
+        if (idleTimeout) clearTimeout(idleTimeout);
+        this.typingIdleTimeouts.delete(roomId);
+
+        // Nothing to stop if no "typing" notification went out
+        if (!this.lastTypingSent[roomId]) return;
+        delete this.lastTypingSent[roomId];
+        this.postTypingStatus(roomId, false);
+    }
+
+    private async postTypingStatus(roomId: string, isTyping: boolean) {
+        try {
+            const payload: TypingRequest = { roomId, isTyping };
+            await fetch('/api/chat/typing', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                credentials: 'include',
+                body: JSON.stringify(payload)
+            });
+        } catch (error) {
+            console.debug('Error sending typing status:', error);
+        }
+    }
+
+    private handleTypingEvent(event: TypingEvent) {
+        if (event.userId === this.currentUser?.id) return;
+
+        if (!event.isTyping) {
+            this.removeTypingUser(event.roomId, event.userId);
+            return;
+        }
+
+        this.typingUsers[event.roomId] = {
+            ...this.typingUsers[event.roomId],
+            [event.userId]: { nickname: event.nickname, expiresAt: Date.now() + event.expiresIn }
+        };
+
+        // Drop the indicator if the typing user goes quiet without telling us
+        const key = `${event.roomId}:${event.userId}`;
+        const expiryTimeout = this.typingExpiryTimeouts.get(key);
+        if (expiryTimeout) clearTimeout(expiryTimeout);
+        this.typingExpiryTimeouts.set(key, setTimeout(() => this.removeTypingUser(event.roomId, event.userId), event.expiresIn));
+    }
+
+    private removeTypingUser(roomId: string, userId: string) {
+        const key = `${roomId}:${userId}`;
+        const expiryTimeout = this.typingExpiryTimeouts.get(key);
+        if (expiryTimeout) clearTimeout(expiryTimeout);
+        this.typingExpiryTimeouts.delete(key);
+
+        if (!this.typingUsers[roomId]?.[userId]) return;
+        const remaining = { ...this.typingUsers[roomId] };
+        delete remaining[userId];
+        this.typingUsers[roomId] = remaining;
+    }
+
+    private clearTypingState() {
+        this.typingExpiryTimeouts.forEach(timeout => clearTimeout(timeout));
+        this.typingIdleTimeouts.forEach(timeout => clearTimeout(timeout));
+        this.typingExpiryTimeouts.clear();
+        this.typingIdleTimeouts.clear();
+        this.lastTypingSent = {};
+        this.typingUsers = {};
+    }
+
+    getTextPreferences() {
+        return this.textPreferences;
+    }
+
+    async loadTextPreferences() {
+        try {
+            const response = await fetch('/api/user/text-preferences', {
+                credentials: 'include'
+            });
+            const data = await response.json() as TextPreferencesResponse;
+            if (!data.success) {
+                throw new Error(data.error);
+            }
+            this.textPreferences = data.preferences;
+            console.debug('Text preferences loaded:', data.preferences);
+        } catch (error) {
+            console.debug('Error loading text preferences:', error);
+            this.textPreferences = null;
+        }
+    }
+
+    async saveTextPreferences(preferences: UserTextPreferences) {
+        const response = await fetch('/api/user/text-preferences', {
+            method: 'PUT',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            credentials: 'include',
+            body: JSON.stringify(preferences)
+        });
+        const data = await response.json() as TextPreferencesResponse;
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to save preferences');
+        }
+        this.textPreferences = data.preferences;
+        console.debug('Text preferences saved:', data.preferences);
+        return data.preferences;
+    }
+
+    // Notification methods: sounds, desktop notifications and the unread counter of the tab title
+    getNotificationPreferences() {
+        return this.notificationPreferences;
+    }
+
+    async loadNotificationPreferences() {
+        try {
+            const response = await fetch('/api/user/notification-preferences', {
+                credentials: 'include'
+            });
+            const data = await response.json() as NotificationPreferencesResponse;
+            if (!data.success) {
+                throw new Error(data.error);
+            }
+            this.notificationPreferences = data.preferences;
+            console.debug('Notification preferences loaded:', data.preferences);
+        } catch (error) {
+            console.debug('Error loading notification preferences:', error);
+        }
+    }
+
+    async saveNotificationPreferences(preferences: NotificationPreferences): Promise<NotificationPreferencesResponse> {
+        try {
+            const response = await fetch('/api/user/notification-preferences', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(preferences)
+            });
+            const data = await response.json() as NotificationPreferencesResponse;
+            if (data.success) {
+                this.notificationPreferences = data.preferences;
+            }
+            return data;
+        } catch (error) {
+            console.debug('Error saving notification preferences:', error);
+            return { success: false, error: 'Failed to save preferences' };
+        }
+    }
+
+    getBuddyNotificationPreferences(userId: string): BuddyNotificationPreferences {
+        return this.notificationPreferences.buddies[userId] ?? { sounds: true, notifications: true };
+    }
+
+    // Override the global preferences for one buddy, an override allowing everything is dropped
+    async setBuddyNotificationPreferences(userId: string, changes: Partial<BuddyNotificationPreferences>): Promise<NotificationPreferencesResponse> {
+        const updated = { ...this.getBuddyNotificationPreferences(userId), ...changes };
+        const buddies = { ...this.notificationPreferences.buddies };
+        if (updated.sounds && updated.notifications) {
+            delete buddies[userId];
+        } else {
+            buddies[userId] = updated;
+        }
+        return this.saveNotificationPreferences({ ...this.notificationPreferences, buddies });
+    }
+
+    // Desktop notifications also need the browser's permission, asked for once
+    async requestNotificationPermission(): Promise<boolean> {
+        if (typeof window === 'undefined' || !('Notification' in window)) return false;
+        if (Notification.permission !== 'default') {
+            return Notification.permission === 'granted';
+        }
+        return await Notification.requestPermission() === 'granted';
+    }
+
+    getUnreadAlertCount() {
+        return this.unreadAlertCount;
+    }
+
+    clearUnreadAlerts() {
+        this.unreadAlertCount = 0;
+    }
+
+    // Called when the user minimizes or restores a window, see MAIN_WINDOW_ID
+    setWindowMinimized(windowId: string, isMinimized: boolean) {
+        if (isMinimized) {
+            this.minimizedWindows[windowId] = true;
+            return;
+        }
+        delete this.minimizedWindows[windowId];
+        if (!this.isPageInBackground()) {
+            this.clearUnreadAlerts();
+        }
+    }
+
+    private isPageInBackground(): boolean {
+        return typeof document !== 'undefined' && (document.hidden || !document.hasFocus());
+    }
+
+    // Whether the user cannot see a window: another tab or application has the focus, or it is minimized
+    private isInBackground(windowId: string): boolean {
+        return this.isPageInBackground() || Boolean(this.minimizedWindows[windowId]);
+    }
+
+    // Play a sound and show a desktop notification, as allowed by the global and the buddy's preferences
+    private alert(userId: string, sound: string, title: string, body: string, tag: string) {
+        const buddyPreferences = this.getBuddyNotificationPreferences(userId);
+        if (this.notificationPreferences.sounds && buddyPreferences.sounds) {
+            // Browsers refuse to play sounds until the user interacted with the page
+            new Audio(sound).play().catch(error => console.debug('Could not play notification sound:', error));
+        }
+        if (this.notificationPreferences.notifications && buddyPreferences.notifications
+            && 'Notification' in window && Notification.permission === 'granted') {
+            const notification = new Notification(title, { body, tag, icon: '/aim/signin-icon.png' });
+            notification.onclick = () => {
+                window.focus();
+                notification.close();
+            };
+        }
+    }
+
+    // Door sounds when a buddy signs on or off, other status changes stay silent
+    private alertPresenceChange(previous: SafeUser, user: SafeUser) {
+        const signedOn = previous.status === 'offline' && user.status !== 'offline';
+        const signedOff = previous.status !== 'offline' && user.status === 'offline';
+        if ((!signedOn && !signedOff) || !this.isInBackground(MAIN_WINDOW_ID)) return;
+
+        this.alert(
+            user.id,
+            signedOn ? SOUNDS.buddyIn : SOUNDS.buddyOut,
+            'Pdr Aim',
+            signedOn ? `${user.nickname} est en ligne` : `${user.nickname} est hors ligne`,
+            `presence:${user.id}`
+        );
+    }
+
+    private alertDirectMessage(message: Message) {
+        if (message.senderId === this.currentUser?.id || message.type === 'system') return;
+        if (!this.isInBackground(message.chatRoomId)) return;
+
+        this.unreadAlertCount += 1;
+        const sender = this.getKnownUser(message.senderId);
+        this.alert(
+            message.senderId,
+            SOUNDS.im,
+            sender ? `Message de ${sender.nickname}` : 'Nouveau message',
+            toNotificationBody(message.content),
+            `im:${message.chatRoomId}`
+        );
+    }
+
+    // A mention in the room being looked at is only highlighted, elsewhere it gets a notice and an alert
+    private handleMention(mention: MentionEvent) {
+        const { message } = mention;
+        const isInBackground = this.isInBackground(MAIN_WINDOW_ID);
+        const isCurrentRoom = message.chatRoomId === this.currentRoomId;
+        if (isCurrentRoom && !isInBackground) return;
+
+        if (!isCurrentRoom) {
+            this.mentionNotice = mention;
+        }
+        if (isInBackground) {
+            this.unreadAlertCount += 1;
+        }
+        this.alert(
+            message.senderId,
+            SOUNDS.im,
+            mention.roomName
+                ? `${mention.senderNickname} vous a mentionné dans ${mention.roomName}`
+                : `${mention.senderNickname} vous a mentionné`,
+            toNotificationBody(message.content),
+            `mention:${message.id}`
+        );
+    }
+
+    async sendMessage(content: string, type: Message['type'] = 'chat', textStyle?: TextStyle): Promise<SendMessageResponse> {
+        return this.postMessage(this.currentRoomId, content, type, textStyle);
+    }
+
+    private async postMessage(chatRoomId: string, content: string, type: Message['type'], textStyle?: TextStyle): Promise<SendMessageResponse> {
+        const user = this.getCurrentUser();
+        if (!user) {
+            console.debug('Cannot send message: No current user');
+            return {
+                success: false,
+                error: 'Not logged in'
+            };
+        }
+
+        // The message itself replaces the typing indicator
+        this.stopTyping(chatRoomId);
+        
+        try {
+            const payload: SendMessageRequest = {
+                content,
+                type,
+                userId: user.id,
+                chatRoomId
+            };
+            
+            // Fall back to the saved default style when the composer provides none
+            const style = textStyle ?? (this.textPreferences?.allowFormatting ? this.textPreferences.defaultStyle : undefined);
+            if (style) {
+                payload.styleData = JSON.stringify(style);
+            }
+
+            console.debug('Sending message with payload:', payload);
+
+            const response = await fetch('/api/chat/messages', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                credentials: 'include',
+                body: JSON.stringify(payload)
+            });
+
+            if (!response.ok) {
+                const errorData = await response.json();
+                // Mutes and filtered messages are returned as is so the composer can explain them
+                if (errorData.isMuted || errorData.isFiltered) {
+                    return errorData as SendMessageResponse;
+                }
+                throw new Error(errorData.error || 'Failed to save message');
+            }
+
+            const data = await response.json() as SendMessageResponse;
+            if (!data.success) {
+                throw new Error(data.error);
+            }
+
+            console.debug('Message sent successfully:', data.message);
+            await invalidate('chat:messages');
+            return data;
+        } catch (error) {
+            console.debug('Error sending message:', error);
+            return {
+                success: false,
+                error: 'Failed to send message'
+            };
+        }
+    }
+
+    private setupSSE() {
+        // Prevent creating multiple SSE connections if one is already active.
+        if (this.eventSource && this.eventSource.readyState !== EventSource.CLOSED) {
+            console.debug('setupSSE: Active SSE connection exists, skipping setup.');
+            return;
+        }
+        // Clear any existing timeouts
+        if (this.connectionTimeout) {
+            clearTimeout(this.connectionTimeout);
+            this.connectionTimeout = null;
+        }
+        
+        if (this.connectionAttemptTimeout) {
+            clearTimeout(this.connectionAttemptTimeout);
+            this.connectionAttemptTimeout = null;
+        }
+        
+        // Debounce connection attempts
+        this.connectionAttemptTimeout = setTimeout(() => {
+            if (!this.currentUser) {
+                console.debug('No current user, skipping SSE connection');
+                return;
+            }
+            
+            if (this.isConnecting) {
+                console.debug('Already connecting to SSE, skipping');
+                return;
+            }
+            
+            this.connectSSE();
+        }, 1000);
+    }
+
+    private async connectSSE() {
+        if (this.isConnecting) {
+            console.debug('Already connecting to SSE, skipping');
+            return;
+        }
+        
+        this.isConnecting = true;
+        
+        try {
+            // Ensure clean disconnect of any existing connection
+            if (this.eventSource) {
+                console.debug('Closing existing SSE connection');
+                this.eventSource.close();
+                this.eventSource = null;
+            }
+            
+            console.debug('Connecting to SSE...');
+            // A new EventSource does not send Last-Event-ID by itself, so pass it along
+            const url = this.lastEventId
+                ? `/api/sse?${new URLSearchParams({ lastEventId: this.lastEventId })}`
+                : '/api/sse';
+            this.eventSource = new EventSource(url, { withCredentials: true });
+            // Reset the handlers flag for the new connection
+            this.sseHandlersRegistered = false;
+            
+            this.eventSource.onopen = () => {
+                console.debug('SSE connection established');
+                this.reconnectAttempts = 0;
+                this.reconnectDelay = 1000;
+                this.sseError = null;
+                this.sseRetryAfter = null;
+                this.isReconnecting = false;
+            };
+            
+            // Set up error handling
+            this.eventSource.onerror = (error) => {
+                console.debug('SSE connection error:', error);
+                if (this.eventSource?.readyState === EventSource.CLOSED) {
+                    this.handleDisconnection();
+                }
+            };
+            
+            // Register event handlers (only once)
+            this.setupMessageHandlers();
+            
+        } catch (error) {
+            console.debug('Error setting up SSE connection:', error);
+            this.handleDisconnection();
+        } finally {
+            this.isConnecting = false;
+        }
+    }
+
+    // Register SSE event handlers only once per connection.
+    private setupMessageHandlers() {
+        if (this.sseHandlersRegistered || !this.eventSource) {
+            return;
+        }
+
+        // Listen for chat messages
+        this.eventSource.addEventListener('chatMessage', async (event: MessageEvent) => {
+            this.trackEventId(event);
+            try {
+                const messageData = JSON.parse(event.data) as Message;
+                console.debug('Received chat message via SSE:', messageData);
+                // A sent message ends the sender's typing indicator
+                this.removeTypingUser(messageData.chatRoomId, messageData.senderId);
+                // Messages for IM windows and other rooms are handled separately
+                if (messageData.chatRoomId !== this.currentRoomId) {
+                    await this.handleBackgroundMessage(messageData);
+                    return;
+                }
+                // While browsing the history the message will come with the newer pages
+                if (this.hasNewerMessagesToLoad) {
+                    return;
+                }
+                // Deduplicate and update messages array with the new message
+                this.messages = Array.from(new Map([...this.messages, messageData].map(m => [m.id, m])).values());
+                // Sort messages so the newest are at the bottom
+                this.messages.sort((a, b) => a.timestamp - b.timestamp);
+                // Ensure the sender's data is available
+                await this.ensureUserData(messageData.senderId);
+            } catch (error) {
+                console.debug('Error handling SSE chat message:', error);
+            }
+        });
+        
+        // The server only sends the current user's own buddy list: in full when the stream opens
+        // or the buddies change, then one delta per presence change
+        this.eventSource.addEventListener('buddyListUpdate', async (event: MessageEvent) => {
+            try {
+                this.updateBuddyList(JSON.parse(event.data) as BuddyList);
+            } catch (error) {
+                console.debug('Error handling buddy list update via SSE:', error);
+            }
+        });
+
+        this.eventSource.addEventListener('presenceDelta', (event: MessageEvent) => {
+            try {
+                this.applyPresenceDelta(JSON.parse(event.data) as PresenceDelta);
+            } catch (error) {
+                console.debug('Error handling presence delta via SSE:', error);
+            }
+        });
+
+        this.eventSource.addEventListener('messageEdited', (event: MessageEvent) => {
+            this.trackEventId(event);
+            try {
+                this.replaceMessage(JSON.parse(event.data) as Message);
+            } catch (error) {
+                console.debug('Error handling message edit via SSE:', error);
+            }
+        });
+
+        this.eventSource.addEventListener('messageDeleted', (event: MessageEvent) => {
+            this.trackEventId(event);
+            try {
+                this.markMessageDeleted(JSON.parse(event.data) as MessageDeletedEvent);
+            } catch (error) {
+                console.debug('Error handling message deletion via SSE:', error);
+            }
+        });
+
+        // Sent on the user's own stream, whichever room the mention is in
+        this.eventSource.addEventListener('mention', (event: MessageEvent) => {
+            this.trackEventId(event);
+            try {
+                this.handleMention(JSON.parse(event.data) as MentionEvent);
+            } catch (error) {
+                console.debug('Error handling mention via SSE:', error);
+            }
+        });
+
+        this.eventSource.addEventListener('typing', (event: MessageEvent) => {
+            this.trackEventId(event);
+            try {
+                this.handleTypingEvent(JSON.parse(event.data) as TypingEvent);
+            } catch (error) {
+                console.debug('Error handling typing event via SSE:', error);
+            }
+        });
+
+        this.eventSource.addEventListener('sanctionApplied', async (event: MessageEvent) => {
+            try {
+                await this.handleSanction(JSON.parse(event.data) as SanctionAppliedEvent);
+            } catch (error) {
+                console.debug('Error handling sanction via SSE:', error);
+            }
+        });
+
+        this.eventSource.addEventListener('reportCreated', (event: MessageEvent) => {
+            try {
+                this.lastReport = JSON.parse(event.data) as ReportCreatedEvent;
+            } catch (error) {
+                console.debug('Error handling report via SSE:', error);
+            }
+        });
+
+        // The server could not replay everything we missed: fetch the current state again
+        this.eventSource.addEventListener('resyncRequired', async () => {
+            console.debug('SSE resync required, reloading messages');
+            this.lastEventId = null;
+            await this.resync();
+        });
+
+        this.sseHandlersRegistered = true;
+    }
+
+    private trackEventId(event: MessageEvent) {
+        if (event.lastEventId) {
+            this.lastEventId = event.lastEventId;
+        }
+    }
+
+    private async resync() {
+        await Promise.all([
+            this.initializeMessages(),
+            this.loadRooms(),
+            ...this.directConversations.map(async (conversation) => {
+                try {
+                    const history = await this.fetchRoomMessages(conversation.roomId);
+                    this.directConversations = this.directConversations.map(c => c.roomId === conversation.roomId
+                        ? { ...c, messages: history }
+                        : c
+                    );
+                } catch (error) {
+                    console.debug('Error reloading direct conversation:', error);
+                }
+            })
+        ]);
     }
 
     private async ensureUserData(userId: string) {
@@ -4,21 +4,46 @@ export interface User {
     password: string; // hashed password
     nickname: string;
     status: UserStatus; // default is 'offline'
+    role: UserRole;     // default is 'user'
     avatarUrl?: string | null;
     createdAt: number;  // Timestamp (e.g., Unix timestamp)
     lastSeen?: number | null;  // Optional last active timestamp
+    statusMessage?: string | null; // Free text shown next to the nickname in buddy lists
+    awayMessage?: string | null;   // Set while the user is away, sent as an automatic reply to IMs
+    buddyListVersion?: number;     // Version of the user's own buddy list, bumped with every change to it
   }
 
 export type UserStatus = 'offline' | 'online' | 'away' | string;
+
+// Site-wide roles, from least to most privileged
+export type UserRole = 'user' | 'moderator' | 'admin';
   
   // Chat rooms table: supports both direct (private) and group chat conversations
   export interface ChatRoom {
     id: string;
     name?: string;               // Optional for direct chats, required for groups
     type: 'direct' | 'group' | string; // Default is 'direct'
+    directKey?: string | null;   // Set for direct chats only, unique per user pair
     createdAt: number;           // Creation timestamp
   }
   
+  // Room members table: links users to the chat rooms they belong to
+  export type RoomMemberRole = 'owner' | 'member';
+
+  export interface RoomMember {
+    roomId: string;     // Reference to the chat room (ChatRoom.id)
+    userId: string;     // Reference to the member (User.id)
+    role: RoomMemberRole;
+    joinedAt: number;   // Timestamp when the user joined the room
+  }
+
+  // Room summary sent to clients when listing rooms
+  export interface RoomSummary extends ChatRoom {
+    memberCount: number;
+    role: RoomMemberRole | null; // null for the default public room
+    peerId?: string;             // Other participant of a direct room
+  }
+  
   // Messages table: stores the conversation messages
   export interface Message {
     id: string;
@@ -29,6 +54,47 @@ export type UserStatus = 'offline' | 'online' | 'away' | string;
     timestamp: number;  // Timestamp when the message was sent
     styleData?: string; // JSON string of TextStyle object for formatting
     hasFormatting?: boolean; // Flag to indicate if message has custom formatting
+    editedAt?: number;  // Timestamp of the last edit
+    deletedAt?: number; // Timestamp of the deletion; the content is then emptied
+    mentions?: string[]; // Ids of the users mentioned with @nickname
+  }
+
+  // Message revisions table: previous versions of edited or deleted messages
+  export interface MessageRevision {
+    id: string;
+    messageId: string;  // Reference to the message (Message.id)
+    content: string;
+    styleData?: string;
+    createdAt: number;  // Timestamp when this version was replaced
+  }
+
+  // Senders can edit or delete their messages for this long after sending them
+  export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
+  // Markers around the matched terms of a search snippet (private-use characters, never typed by users)
+  export const SEARCH_HIGHLIGHT_START = '\uE000';
+  export const SEARCH_HIGHLIGHT_END = '\uE001';
+
+  // A message matching a full-text search
+  export interface MessageSearchResult {
+    message: Message;
+    senderNickname: string;
+    roomName?: string;
+    snippet: string; // Excerpt with the matches wrapped in SEARCH_HIGHLIGHT_START/END
+  }
+
+  // Payload of the `mention` SSE event, sent to each user mentioned in a message
+  export interface MentionEvent {
+    message: Message;
+    senderNickname: string;
+    roomName?: string;
+  }
+
+  // Payload of the `messageDeleted` SSE event
+  export interface MessageDeletedEvent {
+    messageId: string;
+    chatRoomId: string;
+    deletedAt: number;
   }
 
   // Safe user type for API responses - omits sensitive information
@@ -40,8 +106,11 @@ export type UserStatus = 'offline' | 'online' | 'away' | string;
       id: user.id,
       nickname: user.nickname,
       status: user.status,
+      role: user.role ?? 'user',
       avatarUrl: user.avatarUrl,
-      lastSeen: user.lastSeen ?? 0
+      lastSeen: user.lastSeen ?? 0,
+      statusMessage: user.statusMessage ?? null,
+      awayMessage: user.awayMessage ?? null
     };
     return safeUser;
   }
@@ -51,12 +120,201 @@ export type UserStatus = 'offline' | 'online' | 'away' | string;
     user: SafeUser;
   }
 
-  export type MessageType = 'chat' | 'emote' | 'system' | string;
+  // 'autoReply' messages are sent by the server on behalf of away users
+  export type MessageType = 'chat' | 'emote' | 'system' | 'autoReply' | string;
+
+  // Payload of the `typing` SSE event
+  export interface TypingEvent {
+    roomId: string;
+    userId: string;
+    nickname: string;
+    isTyping: boolean;
+    expiresIn: number; // Milliseconds before the indicator disappears without a new event
+  }
+
+  // Sanctions table: mutes and bans applied by moderators
+  export type SanctionType = 'mute' | 'ban';
+
+  export interface Sanction {
+    id: string;
+    type: SanctionType;
+    userId?: string | null;   // Sanctioned user, null for IP bans
+    ipHash?: string | null;   // HMAC of the banned IP address, see hashIp
+    reason?: string | null;
+    createdBy: string;        // Moderator who applied the sanction (User.id)
+    createdAt: number;
+    expiresAt?: number | null; // null for permanent sanctions
+    liftedAt?: number | null;  // Set when a moderator lifts the sanction early
+    liftedBy?: string | null;
+  }
+
+  // Moderation log table: audit trail of moderator actions
+  export type ModerationAction = 'mute' | 'unmute' | 'kick' | 'ban' | 'unban' | 'setRole' | 'deleteMessage' | 'dismissReports' | 'announce' | 'editContentRules';
+
+  export interface ModerationLogEntry {
+    id: string;
+    actorId: string;            // Moderator who acted (User.id)
+    action: ModerationAction;
+    targetUserId?: string | null;
+    targetIpHash?: string | null;
+    sanctionId?: string | null;
+    reason?: string | null;
+    details?: string | null;    // JSON string with action specific data
+    createdAt: number;
+  }
+
+  // Message reports table: users flagging messages for moderators
+  export interface MessageReport {
+    id: string;
+    messageId: string;   // Reported message (Message.id)
+    reporterId?: string | null; // User who reported it (User.id), null when flagged by the content filter
+    reason: string;
+    createdAt: number;
+    resolvedAt?: number | null; // Set when a moderator handled the report
+    resolvedBy?: string | null;
+  }
+
+  // Content rules table: filter applied by the server to message content, edited by admins
+  export type ContentRuleKind = 'blockedWord' | 'regex' | 'maxLinks' | 'blockedDomain' | 'allowedDomain' | 'repeatedChars' | 'caps';
+  export type ContentRuleAction = 'reject' | 'mask' | 'flag';
+
+  export interface ContentRule {
+    id: string;
+    kind: ContentRuleKind;
+    // Word, pattern or domain. For maxLinks the number of links allowed, for repeatedChars the longest
+    // run of one character, for caps the highest percentage of capital letters.
+    value: string;
+    action: ContentRuleAction;
+    enabled: boolean;
+    createdBy: string;   // Admin who added the rule (User.id)
+    createdAt: number;
+  }
+
+  // Reported message listed in the moderator console, with its open reports
+  export interface ReportSummary {
+    message: Message;
+    senderNickname: string;
+    reportCount: number;
+    reasons: string[];
+    lastReportedAt: number;
+  }
+
+  // Payload of the `reportCreated` SSE event, sent to moderators
+  export interface ReportCreatedEvent {
+    messageId: string;
+    chatRoomId: string;
+    reporterNickname: string;
+    reason: string;
+    reportCount: number; // Open reports from users on the message, this one included; filter flags are not counted
+  }
+
+  // Active sanction listed in the moderator console
+  export interface SanctionSummary extends Sanction {
+    userNickname?: string;     // Unset for IP bans
+    createdByNickname: string;
+  }
+
+  // Audit log entry listed in the moderator console
+  export interface ModerationLogSummary extends ModerationLogEntry {
+    actorNickname: string;
+    targetNickname?: string;
+  }
+
+  // Payload of the `sanctionApplied` SSE event, sent to the sanctioned user
+  export interface SanctionAppliedEvent {
+    action: 'mute' | 'kick' | 'ban';
+    reason?: string;
+    expiresAt?: number;
+  }
 
   export interface Session {
     id: string;
     userId: string;
     expiresAt: number;
     createdAt: number;
+    isPersistent: boolean;    // "Remember me" sessions live longer and survive browser restarts
+    lastUsedAt?: number | null;
+    userAgent?: string | null;
+    ipHash?: string | null;   // HMAC of the last IP address the session was used from
   }
-  
+
+  // Login failures table: failed logins by nickname since the last successful login with it
+  export interface LoginFailure {
+    id: string;
+    nickname: string;
+    ipHash?: string | null;
+    userAgent?: string | null;
+    createdAt: number;
+  }
+
+  // Failed login reported to the user on their next successful login
+  export interface LoginFailureSummary {
+    createdAt: number;
+    userAgent?: string | null;
+  }
+
+  // Session listed in the account settings, without the IP hash
+  export interface SessionSummary {
+    id: string;
+    createdAt: number;
+    expiresAt: number;
+    lastUsedAt: number;
+    userAgent?: string | null;
+    isCurrent: boolean;
+  }
+
+  // Buddy lists: one row per user and buddy. A request is a 'pending' row of the requester,
+  // accepting it makes both rows 'accepted'; a 'blocked' row hides the owner from that user.
+  export type BuddyState = 'pending' | 'accepted' | 'blocked';
+
+  export interface Buddy {
+    ownerId: string;    // User whose list the row belongs to (User.id)
+    buddyId: string;    // Listed user (User.id)
+    groupName: string;  // User-defined group, e.g. "Amis"
+    state: BuddyState;
+    createdAt: number;
+  }
+
+  export interface BuddyGroup {
+    name: string;
+    onlineCount: number;
+    buddies: SafeUser[];
+  }
+
+  // A user's own buddy list, as sent in buddyListUpdate events
+  export interface BuddyList {
+    version: number;      // Presence version the list is up to date with, see PresenceDelta
+    groups: BuddyGroup[];
+    requests: SafeUser[]; // Incoming requests waiting for an answer
+    pending: SafeUser[];  // Outgoing requests, without presence
+    blocked: SafeUser[];  // Without presence
+  }
+
+  export type PresenceDeltaKind = 'joined' | 'updated' | 'offline';
+
+  // Payload of the `presenceDelta` SSE event: one buddy's presence changed.
+  // It applies to a list at `previousVersion`, any other version means events were missed.
+  export interface PresenceDelta {
+    version: number;
+    previousVersion: number;
+    kind: PresenceDeltaKind;
+    user: SafeUser;
+  }
+
+  // Alerts played while the chat is in the background (unfocused tab or minimized window)
+  export interface BuddyNotificationPreferences {
+    sounds: boolean;
+    notifications: boolean;
+  }
+
+  export interface NotificationPreferences {
+    sounds: boolean;        // Door sounds when buddies sign on and off, chime for new IMs
+    notifications: boolean; // Desktop notifications, the browser must allow them too
+    buddies: Record<string, BuddyNotificationPreferences>; // Overrides by buddy (User.id)
+  }
+
+  export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+    sounds: true,
+    notifications: false,
+    buddies: {}
+  };
@@ -1,13 +1,17 @@
-import type { SafeUser, Message } from "./chat";
+import type { SafeUser, Message, MessageRevision, MessageSearchResult, ChatRoom, RoomSummary, Sanction, SanctionSummary, ModerationLogSummary, ReportSummary, UserRole, ContentRule, ContentRuleKind, ContentRuleAction, SessionSummary, LoginFailureSummary, UserStatus, BuddyList, NotificationPreferences } from "./chat";
+import type { UserTextPreferences } from "./text-formatting";
 
 // Login
 export interface LoginResponseSuccess {
 	success: true;
 	user: SafeUser;
+	failedLoginAttempts?: LoginFailureSummary[]; // Failed logins since the previous successful one
 }
 
 export interface LoginResponseError {
 	error: string;
+	requiresTurnstile?: boolean;
+	lockedUntil?: number;
 }
 
 // Register
@@ -57,14 +61,21 @@ export interface SendMessageResponseError {
     error: string;
     retryAfter?: number; // Time in ms until next allowed message
     isRateLimited?: boolean;
+    isMuted?: boolean;
+    mutedUntil?: number; // Unset for permanent mutes
+    isFiltered?: boolean; // Rejected by the content filter
 }
 
 export type SendMessageResponse = SendMessageResponseSuccess | SendMessageResponseError;
 
 export interface GetMessagesResponseSuccess {
     success: true;
-    messages: Message[];
-    hasMore: boolean;
+    messages: Message[];       // Oldest first
+    hasMore: boolean;          // Same as hasMoreBefore, kept for older clients
+    hasMoreBefore: boolean;
+    hasMoreAfter: boolean;
+    beforeCursor?: string;     // Pass as `before` to load the previous page
+    afterCursor?: string;      // Pass as `after` to load the next page
 }
 
 export interface GetMessagesResponseError {
@@ -74,11 +85,62 @@ export interface GetMessagesResponseError {
 
 export type GetMessagesResponse = GetMessagesResponseSuccess | GetMessagesResponseError;
 
+export interface EditMessageRequest {
+    content: string;
+    styleData?: string;
+}
+
+export interface EditMessageResponseSuccess {
+    success: true;
+    message: Message;
+}
+
+export interface EditMessageResponseError {
+    success: false;
+    error: string;
+    isMuted?: boolean;
+    mutedUntil?: number; // Unset for permanent mutes
+}
+
+export type EditMessageResponse = EditMessageResponseSuccess | EditMessageResponseError;
+
+export interface DeleteMessageResponse {
+    success: boolean;
+    error?: string;
+}
+
+export interface MessageHistoryResponseSuccess {
+    success: true;
+    message: Message;
+    revisions: MessageRevision[];
+}
+
+export interface MessageHistoryResponseError {
+    success: false;
+    error: string;
+}
+
+export type MessageHistoryResponse = MessageHistoryResponseSuccess | MessageHistoryResponseError;
+
+export interface SearchMessagesResponseSuccess {
+    success: true;
+    results: MessageSearchResult[];
+    hasMore: boolean;
+    nextOffset?: number;
+}
+
+export interface SearchMessagesResponseError {
+    success: false;
+    error: string;
+}
+
+export type SearchMessagesResponse = SearchMessagesResponseSuccess | SearchMessagesResponseError;
+
 // ----- Public Room Payloads -----
 
 export interface PublicRoomResponseSuccess {
     success: true;
-    buddyList: SafeUser[];
+    buddyList: BuddyList | null; // null for visitors who are not logged in
 }
 
 export interface PublicRoomResponseError {
@@ -86,4 +148,313 @@ export interface PublicRoomResponseError {
     error: string;
 }
 
-export type PublicRoomResponse = PublicRoomResponseSuccess | PublicRoomResponseError; 
\ No newline at end of file
+export type PublicRoomResponse = PublicRoomResponseSuccess | PublicRoomResponseError;
+
+// ----- Rooms Payloads -----
+
+export interface CreateRoomRequest {
+    name: string;
+    memberIds?: string[];
+}
+
+export interface CreateRoomResponseSuccess {
+    success: true;
+    room: ChatRoom;
+}
+
+export interface CreateRoomResponseError {
+    success: false;
+    error: string;
+}
+
+export type CreateRoomResponse = CreateRoomResponseSuccess | CreateRoomResponseError;
+
+export interface ListRoomsResponseSuccess {
+    success: true;
+    rooms: RoomSummary[];
+}
+
+export interface ListRoomsResponseError {
+    success: false;
+    error: string;
+}
+
+export type ListRoomsResponse = ListRoomsResponseSuccess | ListRoomsResponseError;
+
+export interface RoomMembershipResponseSuccess {
+    success: true;
+    roomId: string;
+}
+
+export interface RoomMembershipResponseError {
+    success: false;
+    error: string;
+}
+
+export type RoomMembershipResponse = RoomMembershipResponseSuccess | RoomMembershipResponseError;
+
+export interface DirectRoomRequest {
+    userId: string;
+}
+
+export interface DirectRoomResponseSuccess {
+    success: true;
+    room: ChatRoom;
+    peer: SafeUser;
+}
+
+export interface DirectRoomResponseError {
+    success: false;
+    error: string;
+}
+
+export type DirectRoomResponse = DirectRoomResponseSuccess | DirectRoomResponseError;
+
+// ----- Text Preferences Payloads -----
+
+export interface TextPreferencesResponseSuccess {
+    success: true;
+    preferences: UserTextPreferences;
+}
+
+export interface TextPreferencesResponseError {
+    success: false;
+    error: string;
+}
+
+export type TextPreferencesResponse = TextPreferencesResponseSuccess | TextPreferencesResponseError;
+
+// ----- Notification Preferences Payloads -----
+
+export interface NotificationPreferencesResponseSuccess {
+    success: true;
+    preferences: NotificationPreferences;
+}
+
+export interface NotificationPreferencesResponseError {
+    success: false;
+    error: string;
+}
+
+export type NotificationPreferencesResponse = NotificationPreferencesResponseSuccess | NotificationPreferencesResponseError;
+
+// ----- Typing Indicator Payloads -----
+
+export interface TypingRequest {
+    roomId: string;
+    isTyping: boolean;
+}
+
+export interface TypingResponse {
+    success: boolean;
+    error?: string;
+}
+
+// ----- Report Payloads -----
+
+export interface ReportMessageRequest {
+    reason: string;
+}
+
+export interface ReportMessageResponseSuccess {
+    success: true;
+}
+
+export interface ReportMessageResponseError {
+    success: false;
+    error: string;
+}
+
+export type ReportMessageResponse = ReportMessageResponseSuccess | ReportMessageResponseError;
+
+// ----- Moderation Payloads -----
+
+export interface MuteRequest {
+    userId: string;
+    durationMinutes: number;
+    reason?: string;
+}
+
+export interface KickRequest {
+    userId: string;
+    reason?: string;
+}
+
+// Either userId or ip; permanent without durationMinutes
+export interface BanRequest {
+    userId?: string;
+    ip?: string;
+    durationMinutes?: number;
+    reason?: string;
+}
+
+export interface SetRoleRequest {
+    userId: string;
+    role: UserRole;
+}
+
+export interface ModerationResponseSuccess {
+    success: true;
+    sanction?: Sanction; // Created or lifted sanction
+}
+
+export interface ModerationResponseError {
+    success: false;
+    error: string;
+}
+
+export type ModerationResponse = ModerationResponseSuccess | ModerationResponseError;
+
+export interface AnnouncementRequest {
+    content: string;
+}
+
+export interface ModerationOverviewResponseSuccess {
+    success: true;
+    sanctions: SanctionSummary[];      // Active mutes and bans, newest first
+    reports: ReportSummary[];          // Messages with open reports, most recently reported first
+    auditLog: ModerationLogSummary[];  // Latest moderator actions, newest first
+    connections: {
+        users: number;                 // Users with an open SSE stream
+    };
+}
+
+export interface ModerationOverviewResponseError {
+    success: false;
+    error: string;
+}
+
+export type ModerationOverviewResponse = ModerationOverviewResponseSuccess | ModerationOverviewResponseError;
+
+// ----- Content Filter Payloads -----
+
+export interface ContentRuleRequest {
+    kind: ContentRuleKind;
+    value: string;
+    action: ContentRuleAction;
+    enabled?: boolean;
+}
+
+export interface UpdateContentRuleRequest {
+    action?: ContentRuleAction;
+    enabled?: boolean;
+}
+
+export interface ContentRuleResponseSuccess {
+    success: true;
+    rule?: ContentRule; // Created or updated rule
+}
+
+export interface ContentRuleResponseError {
+    success: false;
+    error: string;
+}
+
+export type ContentRuleResponse = ContentRuleResponseSuccess | ContentRuleResponseError;
+
+export interface ContentRulesResponseSuccess {
+    success: true;
+    rules: ContentRule[]; // Oldest first, disabled rules included
+}
+
+export interface ContentRulesResponseError {
+    success: false;
+    error: string;
+}
+
+export type ContentRulesResponse = ContentRulesResponseSuccess | ContentRulesResponseError;
+
+// ----- Session Management Payloads -----
+
+export interface ListSessionsResponseSuccess {
+    success: true;
+    sessions: SessionSummary[]; // Most recently used first
+}
+
+export interface ListSessionsResponseError {
+    success: false;
+    error: string;
+}
+
+export type ListSessionsResponse = ListSessionsResponseSuccess | ListSessionsResponseError;
+
+export interface RevokeSessionsResponseSuccess {
+    success: true;
+    revoked: number; // Sessions closed
+}
+
+export interface RevokeSessionsResponseError {
+    success: false;
+    error: string;
+}
+
+export type RevokeSessionsResponse = RevokeSessionsResponseSuccess | RevokeSessionsResponseError;
+
+// ----- Account Payloads -----
+
+export interface ChangePasswordRequest {
+    currentPassword: string;
+    newPassword: string;
+    confirmPassword: string;
+}
+
+export interface DeleteAccountRequest {
+    password: string;
+}
+
+export interface AccountResponseSuccess {
+    success: true;
+}
+
+export interface AccountResponseError {
+    success: false;
+    error: string;
+}
+
+export type AccountResponse = AccountResponseSuccess | AccountResponseError;
+
+// ----- Status Payloads -----
+
+// Omitted fields are left unchanged, null or empty messages clear them
+export interface UpdateStatusRequest {
+    status?: UserStatus;
+    statusMessage?: string | null;
+    awayMessage?: string | null;
+}
+
+export interface UpdateStatusResponseSuccess {
+    success: true;
+    user: SafeUser;
+}
+
+export interface UpdateStatusResponseError {
+    success: false;
+    error: string;
+}
+
+export type UpdateStatusResponse = UpdateStatusResponseSuccess | UpdateStatusResponseError;
+
+// ----- Buddy List Payloads -----
+
+export interface AddBuddyRequest {
+    nickname: string;
+    groupName?: string;
+}
+
+// Moving a buddy, or choosing the group when accepting a request
+export interface BuddyGroupRequest {
+    groupName: string;
+}
+
+export interface BuddyListResponseSuccess {
+    success: true;
+    buddyList: BuddyList;
+    result?: 'requested' | 'accepted'; // Outcome of a buddy request
+}
+
+export interface BuddyListResponseError {
+    success: false;
+    error: string;
+}
+
+export type BuddyListResponse = BuddyListResponseSuccess | BuddyListResponseError;
@@ -144,13 +144,15 @@ export interface UserTextPreferences {
   defaultStyle: TextStyle;
   allowFormatting: boolean;
   maxMessageLength: number;
+  stylePresets?: TextStyle[];
 }
 
 // Default user preferences
 export const DEFAULT_USER_PREFERENCES: UserTextPreferences = {
   defaultStyle: DEFAULT_TEXT_STYLE,
   allowFormatting: true,
-  maxMessageLength: 500
+  maxMessageLength: 500,
+  stylePresets: []
 };
 
 // Hex color validation
@@ -0,0 +1,89 @@
+import db from '$lib/db/db.server';
+import {
+    awayReplies,
+    buddies,
+    contentRules,
+    loginFailures,
+    messageReports,
+    messages,
+    moderationLogs,
+    roomMembers,
+    sanctions,
+    sessions,
+    userNotificationPreferences,
+    userTextPreferences,
+    users
+} from '$lib/db/schema';
+import { and, eq, isNull, or } from 'drizzle-orm';
+import { sseEmitter } from '$lib/sseEmitter';
+import { pushBuddyLists } from '$lib/utils/buddies.server';
+import { createLogger } from '$lib/utils/logger.server';
+
+const log = createLogger('account-utils');
+
+// Placeholder user the content of deleted accounts is attributed to.
+// Its nickname cannot be registered nor used to log in, and it has no usable password.
+export const DELETED_ACCOUNT_ID = '00000000-0000-0000-0000-000000000000';
+export const DELETED_ACCOUNT_NICKNAME = 'compte supprimé';
+
+// Delete a user. Their messages and moderation history stay, attributed to the placeholder user;
+// their sessions, room memberships, buddy lists and preferences are removed.
+export async function deleteAccount(userId: string): Promise<void> {
+    const now = Date.now();
+    const user = await db.select({ nickname: users.nickname }).from(users).where(eq(users.id, userId)).get();
+    const buddyRows = await db.select({ ownerId: buddies.ownerId, buddyId: buddies.buddyId })
+        .from(buddies)
+        .where(or(eq(buddies.ownerId, userId), eq(buddies.buddyId, userId)));
+
+    await db.transaction(async (tx) => {
+        await tx.insert(users)
+            .values({
+                id: DELETED_ACCOUNT_ID,
+                nickname: DELETED_ACCOUNT_NICKNAME,
+                password: '!',
+                status: 'offline',
+                createdAt: 0
+            })
+            .onConflictDoNothing();
+
+        await tx.update(messages).set({ senderId: DELETED_ACCOUNT_ID }).where(eq(messages.senderId, userId));
+
+        await tx.update(messageReports).set({ reporterId: null }).where(eq(messageReports.reporterId, userId));
+        await tx.update(messageReports).set({ resolvedBy: DELETED_ACCOUNT_ID }).where(eq(messageReports.resolvedBy, userId));
+
+        // Sanctions of a deleted user no longer apply
+        await tx.update(sanctions)
+            .set({ liftedAt: now, liftedBy: DELETED_ACCOUNT_ID })
+            .where(and(eq(sanctions.userId, userId), isNull(sanctions.liftedAt)));
+        await tx.update(sanctions).set({ userId: DELETED_ACCOUNT_ID }).where(eq(sanctions.userId, userId));
+        await tx.update(sanctions).set({ createdBy: DELETED_ACCOUNT_ID }).where(eq(sanctions.createdBy, userId));
+        await tx.update(sanctions).set({ liftedBy: DELETED_ACCOUNT_ID }).where(eq(sanctions.liftedBy, userId));
+
+        await tx.update(moderationLogs).set({ actorId: DELETED_ACCOUNT_ID }).where(eq(moderationLogs.actorId, userId));
+        await tx.update(moderationLogs).set({ targetUserId: DELETED_ACCOUNT_ID }).where(eq(moderationLogs.targetUserId, userId));
+        await tx.update(contentRules).set({ createdBy: DELETED_ACCOUNT_ID }).where(eq(contentRules.createdBy, userId));
+
+        await tx.delete(awayReplies).where(or(eq(awayReplies.userId, userId), eq(awayReplies.senderId, userId)));
+        await tx.delete(roomMembers).where(eq(roomMembers.userId, userId));
+        await tx.delete(buddies).where(or(eq(buddies.ownerId, userId), eq(buddies.buddyId, userId)));
+        await tx.delete(userTextPreferences).where(eq(userTextPreferences.userId, userId));
+        await tx.delete(userNotificationPreferences).where(eq(userNotificationPreferences.userId, userId));
+        await tx.delete(sessions).where(eq(sessions.userId, userId));
+        if (user) await tx.delete(loginFailures).where(eq(loginFailures.nickname, user.nickname));
+        await tx.delete(users).where(eq(users.id, userId));
+    });
+    log.info('Account deleted', { userId: `${userId.slice(0, 4)}...${userId.slice(-4)}` });
+    sseEmitter.closeUserStreams(userId);
+
+    // The deleted user disappears from the lists they were on
+    const affectedUserIds = new Set(buddyRows.flatMap(row => [row.ownerId, row.buddyId]));
+    affectedUserIds.delete(userId);
+    if (affectedUserIds.size === 0) return;
+    try {
+        await pushBuddyLists(Array.from(affectedUserIds));
+    } catch (error) {
+        log.error('Error updating buddy lists after account deletion', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
@@ -0,0 +1,228 @@
+import db from '$lib/db/db.server';
+import { buddies, users } from '$lib/db/schema';
+import { and, count, eq, inArray, ne, or } from 'drizzle-orm';
+import type { Buddy, BuddyList, BuddyState, PresenceDelta, PresenceDeltaKind, SafeUser } from '$lib/types/chat';
+import { createSafeUser } from '$lib/types/chat';
+import { buddyListVersions } from '$lib/buddyListVersions';
+import { sseEmitter } from '$lib/sseEmitter';
+import { compareBuddies } from '$lib/utils/buddy-list';
+import { createLogger } from '$lib/utils/logger.server';
+import { DEFAULT_BUDDY_GROUPS, MAX_BUDDIES } from '$lib/validation/buddy';
+
+const log = createLogger('buddies-utils');
+
+export type AddBuddyResult = 'requested' | 'accepted' | 'exists' | 'limitReached';
+
+// Requests and blocked users only show a nickname, presence is for accepted buddies
+function withoutPresence(user: SafeUser): SafeUser {
+    return { ...user, status: 'offline', lastSeen: null, statusMessage: null, awayMessage: null };
+}
+
+// Build a user's list from the rows they own and the requests addressed to them
+function buildBuddyList(userId: string, version: number, rows: Buddy[], usersById: Map<string, SafeUser>): BuddyList {
+    const list: BuddyList = { version, groups: [], requests: [], pending: [], blocked: [] };
+    const members = new Map<string, SafeUser[]>(DEFAULT_BUDDY_GROUPS.map(name => [name, []]));
+    const blockedIds = new Set(rows
+        .filter(row => row.ownerId === userId && row.state === 'blocked')
+        .map(row => row.buddyId));
+
+    for (const row of rows) {
+        if (row.ownerId === userId) {
+            const buddy = usersById.get(row.buddyId);
+            if (!buddy) continue;
+            if (row.state === 'accepted') {
+                members.set(row.groupName, [...(members.get(row.groupName) ?? []), buddy]);
+            } else if (row.state === 'pending') {
+                list.pending.push(withoutPresence(buddy));
+            } else {
+                list.blocked.push(withoutPresence(buddy));
+            }
+        } else if (row.buddyId === userId && row.state === 'pending' && !blockedIds.has(row.ownerId)) {
+            const requester = usersById.get(row.ownerId);
+            if (requester) list.requests.push(withoutPresence(requester));
+        }
+    }
+
+    // Default groups first, then the user's own groups by name
+    const groupNames = [
+        ...DEFAULT_BUDDY_GROUPS,
+        ...Array.from(members.keys()).filter(name => !DEFAULT_BUDDY_GROUPS.includes(name)).sort((a, b) => a.localeCompare(b))
+    ];
+    list.groups = groupNames.map(name => {
+        const groupMembers = (members.get(name) ?? []).sort(compareBuddies);
+        return {
+            name,
+            onlineCount: groupMembers.filter(buddy => buddy.status !== 'offline').length,
+            buddies: groupMembers
+        };
+    });
+    return list;
+}
+
+// Buddy lists of several users, with two queries whatever their number
+export async function getBuddyLists(userIds: string[]): Promise<Map<string, BuddyList>> {
+    const lists = new Map<string, BuddyList>();
+    if (userIds.length === 0) return lists;
+
+    // Read before the lists: a presence change made meanwhile gets a later version and is sent again
+    const versions = await buddyListVersions.current(userIds);
+    const rows = await db.select()
+        .from(buddies)
+        .where(or(inArray(buddies.ownerId, userIds), inArray(buddies.buddyId, userIds)));
+    const involvedIds = Array.from(new Set(rows.flatMap(row => [row.ownerId, row.buddyId])));
+    const involvedUsers = involvedIds.length > 0
+        ? await db.select().from(users).where(inArray(users.id, involvedIds))
+        : [];
+    const usersById = new Map(involvedUsers.map(user => [user.id, createSafeUser(user)]));
+
+    for (const userId of userIds) {
+        const userRows = rows.filter(row => row.ownerId === userId || row.buddyId === userId);
+        lists.set(userId, buildBuddyList(userId, versions.get(userId) ?? 0, userRows, usersById));
+    }
+    return lists;
+}
+
+export async function getBuddyList(userId: string): Promise<BuddyList> {
+    const lists = await getBuddyLists([userId]);
+    return lists.get(userId)!;
+}
+
+// Send the whole lists of users whose buddies changed (added, accepted, moved, removed or blocked)
+export async function pushBuddyLists(userIds: string[]): Promise<Map<string, BuddyList>> {
+    await buddyListVersions.next(userIds);
+    const lists = await getBuddyLists(userIds);
+    for (const [userId, list] of lists) {
+        sseEmitter.emitToUser(userId, { type: 'buddyListUpdate', data: list });
+    }
+    return lists;
+}
+
+// Send a user's new presence to the connected users who have them as a buddy.
+// Never throws: the presence itself is already saved, buddies catch up with their next full list.
+export async function pushPresenceDelta(user: SafeUser, kind: PresenceDeltaKind): Promise<void> {
+    const maskedUserId = `${user.id.slice(0, 4)}...${user.id.slice(-4)}`;
+    try {
+        const owners = await db.select({ id: buddies.ownerId })
+            .from(buddies)
+            .innerJoin(users, eq(users.id, buddies.ownerId))
+            .where(and(eq(buddies.buddyId, user.id), eq(buddies.state, 'accepted'), ne(users.status, 'offline')));
+
+        const versions = await buddyListVersions.next(owners.map(owner => owner.id));
+        for (const [ownerId, version] of versions) {
+            const delta: PresenceDelta = { ...version, kind, user };
+            sseEmitter.emitToUser(ownerId, { type: 'presenceDelta', data: delta });
+        }
+        log.debug('Presence delta sent', { userId: maskedUserId, kind, recipients: owners.length });
+    } catch (error) {
+        log.error('Error sending presence delta', {
+            userId: maskedUserId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
+
+async function getBuddyRow(ownerId: string, buddyId: string): Promise<Buddy | undefined> {
+    return db.select()
+        .from(buddies)
+        .where(and(eq(buddies.ownerId, ownerId), eq(buddies.buddyId, buddyId)))
+        .get();
+}
+
+async function upsertBuddyRow(ownerId: string, buddyId: string, state: BuddyState, groupName: string) {
+    await db.insert(buddies)
+        .values({ ownerId, buddyId, groupName, state, createdAt: Date.now() })
+        .onConflictDoUpdate({
+            target: [buddies.ownerId, buddies.buddyId],
+            set: { state, groupName }
+        });
+}
+
+// Whether `ownerId` blocked `userId`
+export async function isBlockedBy(ownerId: string, userId: string): Promise<boolean> {
+    const row = await getBuddyRow(ownerId, userId);
+    return row?.state === 'blocked';
+}
+
+// Ask a user to become a buddy. If they already asked, both become buddies right away.
+// Adding a blocked user unblocks them.
+export async function addBuddy(ownerId: string, buddyId: string, groupName = DEFAULT_BUDDY_GROUPS[0]): Promise<AddBuddyResult> {
+    const [own, theirs] = await Promise.all([getBuddyRow(ownerId, buddyId), getBuddyRow(buddyId, ownerId)]);
+    if (own?.state === 'accepted' || own?.state === 'pending') return 'exists';
+
+    const listed = await db.select({ total: count() })
+        .from(buddies)
+        .where(and(eq(buddies.ownerId, ownerId), ne(buddies.state, 'blocked')))
+        .get();
+    if ((listed?.total ?? 0) >= MAX_BUDDIES) return 'limitReached';
+
+    if (theirs?.state === 'pending') {
+        await acceptBuddy(ownerId, buddyId, groupName);
+        return 'accepted';
+    }
+
+    await upsertBuddyRow(ownerId, buddyId, 'pending', groupName);
+    log.debug('Buddy request sent', {
+        ownerId: `${ownerId.slice(0, 4)}...${ownerId.slice(-4)}`,
+        buddyId: `${buddyId.slice(0, 4)}...${buddyId.slice(-4)}`
+    });
+    return 'requested';
+}
+
+// Accept the request `requesterId` sent to `ownerId`
+export async function acceptBuddy(ownerId: string, requesterId: string, groupName = DEFAULT_BUDDY_GROUPS[0]): Promise<boolean> {
+    const request = await getBuddyRow(requesterId, ownerId);
+    if (request?.state !== 'pending') return false;
+
+    await db.transaction(async (tx) => {
+        await tx.update(buddies)
+            .set({ state: 'accepted' })
+            .where(and(eq(buddies.ownerId, requesterId), eq(buddies.buddyId, ownerId)));
+        await tx.insert(buddies)
+            .values({ ownerId, buddyId: requesterId, groupName, state: 'accepted', createdAt: Date.now() })
+            .onConflictDoUpdate({
+                target: [buddies.ownerId, buddies.buddyId],
+                set: { state: 'accepted', groupName }
+            });
+    });
+    return true;
+}
+
+export async function moveBuddy(ownerId: string, buddyId: string, groupName: string): Promise<boolean> {
+    const moved = await db.update(buddies)
+        .set({ groupName })
+        .where(and(eq(buddies.ownerId, ownerId), eq(buddies.buddyId, buddyId), eq(buddies.state, 'accepted')))
+        .returning({ buddyId: buddies.buddyId });
+    return moved.length > 0;
+}
+
+// Remove a buddy on both sides, or cancel, decline or unblock. The other user's block stays.
+export async function removeBuddy(ownerId: string, otherId: string): Promise<boolean> {
+    const removed = await db.transaction(async (tx) => {
+        const own = await tx.delete(buddies)
+            .where(and(eq(buddies.ownerId, ownerId), eq(buddies.buddyId, otherId)))
+            .returning({ buddyId: buddies.buddyId });
+        const theirs = await tx.delete(buddies)
+            .where(and(eq(buddies.ownerId, otherId), eq(buddies.buddyId, ownerId), ne(buddies.state, 'blocked')))
+            .returning({ buddyId: buddies.buddyId });
+        return own.length + theirs.length;
+    });
+    return removed > 0;
+}
+
+// Block a user: they lose the owner from their list, cannot send them requests nor instant messages
+export async function blockUser(ownerId: string, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+        await tx.insert(buddies)
+            .values({ ownerId, buddyId: userId, groupName: DEFAULT_BUDDY_GROUPS[0], state: 'blocked', createdAt: Date.now() })
+            .onConflictDoUpdate({
+                target: [buddies.ownerId, buddies.buddyId],
+                set: { state: 'blocked' }
+            });
+        await tx.delete(buddies)
+            .where(and(eq(buddies.ownerId, userId), eq(buddies.buddyId, ownerId), ne(buddies.state, 'blocked')));
+    });
+    log.info('User blocked', {
+        ownerId: `${ownerId.slice(0, 4)}...${ownerId.slice(-4)}`,
+        userId: `${userId.slice(0, 4)}...${userId.slice(-4)}`
+    });
+}
@@ -0,0 +1,33 @@
+import type { BuddyList, SafeUser } from '$lib/types/chat';
+
+const STATUS_ORDER: Record<string, number> = { online: 0, away: 1, busy: 2, offline: 3 };
+
+/**
+ * Order of buddies within a group: online first, then away, busy and offline, each by nickname
+ */
+export function compareBuddies(a: SafeUser, b: SafeUser): number {
+  return (STATUS_ORDER[a.status] ?? 3) - (STATUS_ORDER[b.status] ?? 3) || a.nickname.localeCompare(b.nickname);
+}
+
+/**
+ * Apply a buddy's new presence to a buddy list
+ * @param list - The list to update, left untouched
+ * @param user - The buddy with their current status and messages
+ * @param version - Version of the list once the change is applied
+ * @returns The updated list, or the same list with the new version when the user is not in any group
+ */
+export function applyBuddyPresence(list: BuddyList, user: SafeUser, version: number): BuddyList {
+  return {
+    ...list,
+    version,
+    groups: list.groups.map(group => {
+      if (!group.buddies.some(buddy => buddy.id === user.id)) return group;
+      const buddies = group.buddies.map(buddy => buddy.id === user.id ? user : buddy).sort(compareBuddies);
+      return {
+        ...group,
+        onlineCount: buddies.filter(buddy => buddy.status !== 'offline').length,
+        buddies
+      };
+    })
+  };
+}
@@ -1,14 +1,27 @@
 import type { LibSQLDatabase } from "drizzle-orm/libsql";
 import { createLogger } from "$lib/utils/logger.server";
-import schema, { chatRooms } from "$lib/db/schema";
+import schema, { chatRooms, type Messages } from "$lib/db/schema";
 import { eq } from "drizzle-orm";
 import { env } from "$env/dynamic/public";
+import type { Message } from "$lib/types/chat";
 
 const log = createLogger('chat-utils');
 
 // Default chat room ID from environment variable
 export const DEFAULT_CHAT_ROOM_ID = env.PUBLIC_DEFAULT_CHAT_ROOM_ID || '00000000-0000-0000-0000-000000000001';
 
+// Convert a messages row to the API shape (nullable columns become optional fields)
+export function toMessage(row: Messages): Message {
+    return {
+        ...row,
+        styleData: row.styleData ?? undefined,
+        hasFormatting: row.hasFormatting ?? false,
+        editedAt: row.editedAt ?? undefined,
+        deletedAt: row.deletedAt ?? undefined,
+        mentions: row.mentions ?? undefined
+    };
+}
+
 // Type guard for LibSQL errors
 interface LibSQLError {
     code: string;
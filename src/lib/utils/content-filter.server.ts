@@ -0,0 +1,193 @@
+import db from '$lib/db/db.server';
+import { contentRules } from '$lib/db/schema';
+import { asc } from 'drizzle-orm';
+import type { ContentRule, ContentRuleAction, ContentRuleKind, Message, ReportCreatedEvent } from '$lib/types/chat';
+import { createLogger } from '$lib/utils/logger.server';
+import { notifyModerators } from '$lib/utils/moderation.server';
+import { createReport } from '$lib/utils/reports.server';
+
+const log = createLogger('content-filter');
+
+// Rules are cached, and reloaded after a while so every server instance picks up admin changes
+const RULES_CACHE_TTL_MS = 60000;
+// Short messages such as "OK" or "LOL" are never caps spam
+const CAPS_MIN_LETTERS = 10;
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/giu;
+const MASKED_LINK = '[lien masqué]';
+
+const ACTION_SEVERITY: Record<ContentRuleAction, number> = {
+    flag: 0,
+    mask: 1,
+    reject: 2
+};
+
+const KIND_LABELS: Record<ContentRuleKind, string> = {
+    blockedWord: 'mot interdit',
+    regex: 'expression',
+    maxLinks: 'trop de liens',
+    blockedDomain: 'domaine interdit',
+    allowedDomain: 'domaine non autorisé',
+    repeatedChars: 'caractères répétés',
+    caps: 'majuscules'
+};
+
+export interface ContentFilterResult {
+    content: string;           // Content with the masked parts replaced
+    rejectedBy?: ContentRule;  // Set when the message must not be posted
+    flaggedBy: ContentRule[];  // Rules asking for a moderator review
+}
+
+let rulesCache: { rules: ContentRule[]; loadedAt: number } | null = null;
+
+export async function getContentRules(): Promise<ContentRule[]> {
+    return db.select()
+        .from(contentRules)
+        .orderBy(asc(contentRules.createdAt));
+}
+
+// Drop the cached rules after an admin changed them
+export function invalidateContentRules() {
+    rulesCache = null;
+}
+
+async function getEnabledRules(): Promise<ContentRule[]> {
+    if (!rulesCache || Date.now() - rulesCache.loadedAt > RULES_CACHE_TTL_MS) {
+        const rules = await getContentRules();
+        rulesCache = { rules: rules.filter(rule => rule.enabled), loadedAt: Date.now() };
+    }
+    return rulesCache.rules;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function maskText(text: string): string {
+    return '*'.repeat(Array.from(text).length);
+}
+
+function linkHost(link: string): string | null {
+    try {
+        return new URL(/^https?:\/\//i.test(link) ? link : `http://${link}`).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+}
+
+// A domain covers its subdomains
+function isOnDomain(host: string | null, domain: string): boolean {
+    const normalized = domain.toLowerCase();
+    return host !== null && (host === normalized || host.endsWith(`.${normalized}`));
+}
+
+// Check one rule. Returns the masked content when it matched, null otherwise.
+function matchRule(rule: ContentRule, content: string): string | null {
+    switch (rule.kind) {
+        case 'blockedWord': {
+            const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(rule.value)}(?![\\p{L}\\p{N}])`, 'giu');
+            return pattern.test(content) ? content.replace(pattern, maskText) : null;
+        }
+        case 'regex': {
+            let pattern: RegExp;
+            try {
+                pattern = new RegExp(rule.value, 'giu');
+            } catch {
+                log.warn('Invalid content rule pattern skipped', { ruleId: rule.id });
+                return null;
+            }
+            return pattern.test(content) ? content.replace(pattern, maskText) : null;
+        }
+        case 'maxLinks': {
+            const limit = parseInt(rule.value, 10);
+            const links = content.match(LINK_PATTERN) ?? [];
+            if (links.length <= limit) return null;
+            let seen = 0;
+            return content.replace(LINK_PATTERN, link => ++seen > limit ? MASKED_LINK : link);
+        }
+        case 'blockedDomain': {
+            const links = content.match(LINK_PATTERN) ?? [];
+            if (!links.some(link => isOnDomain(linkHost(link), rule.value))) return null;
+            return content.replace(LINK_PATTERN, link => isOnDomain(linkHost(link), rule.value) ? MASKED_LINK : link);
+        }
+        case 'repeatedChars': {
+            const limit = parseInt(rule.value, 10);
+            const pattern = new RegExp(`(.)\\1{${limit},}`, 'gu');
+            return pattern.test(content) ? content.replace(pattern, (_run, char: string) => char.repeat(limit)) : null;
+        }
+        case 'caps': {
+            const letters = content.match(/\p{L}/gu) ?? [];
+            if (letters.length < CAPS_MIN_LETTERS) return null;
+            const capitals = content.match(/\p{Lu}/gu) ?? [];
+            return capitals.length * 100 / letters.length > parseInt(rule.value, 10) ? content.toLowerCase() : null;
+        }
+        case 'allowedDomain':
+            // Allow lists are checked together, see checkAllowList
+            return null;
+    }
+}
+
+// With allowed domains configured, links to any other domain break the allow list.
+// The strictest action among the allowed domain rules applies.
+function checkAllowList(rules: ContentRule[], content: string): { rule: ContentRule; masked: string } | null {
+    const allowRules = rules.filter(rule => rule.kind === 'allowedDomain');
+    if (allowRules.length === 0) return null;
+
+    const isAllowed = (link: string) => allowRules.some(rule => isOnDomain(linkHost(link), rule.value));
+    const links = content.match(LINK_PATTERN) ?? [];
+    if (links.every(isAllowed)) return null;
+
+    const rule = allowRules.reduce((strictest, candidate) =>
+        ACTION_SEVERITY[candidate.action] > ACTION_SEVERITY[strictest.action] ? candidate : strictest);
+    return { rule, masked: content.replace(LINK_PATTERN, link => isAllowed(link) ? link : MASKED_LINK) };
+}
+
+// Run the content of a new or edited message through the enabled rules
+export async function applyContentFilter(content: string): Promise<ContentFilterResult> {
+    const rules = await getEnabledRules();
+    const result: ContentFilterResult = { content, flaggedBy: [] };
+
+    const matches = rules
+        .map(rule => ({ rule, masked: matchRule(rule, content) }))
+        .filter((match): match is { rule: ContentRule; masked: string } => match.masked !== null);
+    const allowListMatch = checkAllowList(rules, content);
+    if (allowListMatch) matches.push(allowListMatch);
+
+    for (const { rule } of matches) {
+        if (rule.action === 'reject') {
+            return { ...result, rejectedBy: rule };
+        }
+        if (rule.action === 'flag') {
+            result.flaggedBy.push(rule);
+        }
+    }
+
+    // Masks are applied one after the other on the content left by the previous ones
+    for (const { rule } of matches.filter(match => match.rule.action === 'mask')) {
+        const masked = rule.kind === 'allowedDomain'
+            ? checkAllowList(rules, result.content)?.masked
+            : matchRule(rule, result.content);
+        if (masked) result.content = masked;
+    }
+    return result;
+}
+
+export function describeContentRule(rule: Pick<ContentRule, 'kind' | 'value'>): string {
+    return `${KIND_LABELS[rule.kind]} (${rule.value})`;
+}
+
+// Send a posted message to the moderators' report queue
+export async function flagMessage(message: Message, rules: ContentRule[]): Promise<void> {
+    const reason = `Filtre automatique : ${rules.map(describeContentRule).join(', ')}`;
+    const created = await createReport(message, null, reason);
+    if (!created) return;
+
+    const reportEvent: ReportCreatedEvent = {
+        messageId: message.id,
+        chatRoomId: message.chatRoomId,
+        reporterNickname: 'Filtre automatique',
+        reason,
+        reportCount: created.reportCount
+    };
+    await notifyModerators({ type: 'reportCreated', data: reportEvent });
+    log.info('Message flagged by the content filter', { messageId: message.id, rules: rules.map(rule => rule.id) });
+}
@@ -0,0 +1,86 @@
+import db from '$lib/db/db.server';
+import { loginFailures } from '$lib/db/schema';
+import { and, count, desc, eq, gt, lt, max } from 'drizzle-orm';
+import type { LoginFailureSummary } from '$lib/types/chat';
+import { hashPassword, verifyPassword } from '$lib/utils/password';
+
+// Failures are counted by the nickname tried, whether an account has it or not,
+// so the challenge, the lockout and the answers do not tell which nicknames are registered.
+
+// Failures before a Turnstile challenge is required, then before the nickname is locked
+export const TURNSTILE_THRESHOLD = 3;
+const LOCKOUT_THRESHOLD = 5;
+// First lockout, doubled with every further failure
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+// Older failures no longer count towards a lockout, and are purged
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Failures shown to the user on their next login, the most recent ones
+const MAX_REPORTED_FAILURES = 20;
+const MAX_USER_AGENT_LENGTH = 300;
+
+export interface AccountLoginState {
+    failures: number;           // Recent failed logins
+    lockedUntil: number | null; // Set while the nickname is locked
+    requiresTurnstile: boolean;
+}
+
+export async function getAccountLoginState(nickname: string): Promise<AccountLoginState> {
+    const now = Date.now();
+    const row = await db.select({ failures: count(), lastFailureAt: max(loginFailures.createdAt) })
+        .from(loginFailures)
+        .where(and(eq(loginFailures.nickname, nickname), gt(loginFailures.createdAt, now - FAILURE_WINDOW_MS)))
+        .get();
+
+    const failures = row?.failures ?? 0;
+    let lockedUntil: number | null = null;
+    if (failures >= LOCKOUT_THRESHOLD && row?.lastFailureAt) {
+        const lockout = Math.min(BASE_LOCKOUT_MS * 2 ** (failures - LOCKOUT_THRESHOLD), MAX_LOCKOUT_MS);
+        lockedUntil = row.lastFailureAt + lockout > now ? row.lastFailureAt + lockout : null;
+    }
+
+    return { failures, lockedUntil, requiresTurnstile: failures >= TURNSTILE_THRESHOLD };
+}
+
+// Record a failed login with a nickname and return its updated state
+export async function recordLoginFailure(
+    nickname: string,
+    metadata: { ipHash: string; userAgent?: string | null }
+): Promise<AccountLoginState> {
+    await db.insert(loginFailures).values({
+        nickname,
+        ipHash: metadata.ipHash,
+        userAgent: metadata.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+        createdAt: Date.now()
+    });
+    return getAccountLoginState(nickname);
+}
+
+// Recent failed logins since the last successful one, oldest first. They are cleared once reported.
+export async function takeLoginFailures(nickname: string): Promise<LoginFailureSummary[]> {
+    const failures = await db.select({ createdAt: loginFailures.createdAt, userAgent: loginFailures.userAgent })
+        .from(loginFailures)
+        .where(eq(loginFailures.nickname, nickname))
+        .orderBy(desc(loginFailures.createdAt))
+        .limit(MAX_REPORTED_FAILURES);
+    if (failures.length > 0) {
+        await db.delete(loginFailures).where(eq(loginFailures.nickname, nickname));
+    }
+    return failures.reverse();
+}
+
+// Delete the failures that no longer count. Those of unknown nicknames are never taken by a login.
+export async function purgeOldLoginFailures(): Promise<number> {
+    const deleted = await db.delete(loginFailures)
+        .where(lt(loginFailures.createdAt, Date.now() - FAILURE_WINDOW_MS))
+        .returning({ id: loginFailures.id });
+    return deleted.length;
+}
+
+let dummyPasswordHash: Promise<string> | null = null;
+
+// Check a password against a throwaway hash, so unknown nicknames take as long as wrong passwords
+export async function verifyDummyPassword(password: string): Promise<void> {
+    dummyPasswordHash ??= hashPassword(crypto.randomUUID());
+    await verifyPassword(password, await dummyPasswordHash);
+}
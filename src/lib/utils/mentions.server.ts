@@ -0,0 +1,50 @@
+import db from '$lib/db/db.server';
+import { buddies, roomMembers, users } from '$lib/db/schema';
+import { and, eq, inArray, ne } from 'drizzle-orm';
+import type { ChatRoom, MentionEvent, Message } from '$lib/types/chat';
+import { sseEmitter } from '$lib/sseEmitter';
+import { createLogger } from '$lib/utils/logger.server';
+import { extractMentionedNicknames } from '$lib/utils/mentions';
+import { isPublicRoom } from '$lib/utils/rooms.server';
+
+const log = createLogger('mentions-utils');
+
+// Ids of the room members a message mentions with @nickname. The sender, unknown nicknames,
+// non-members and users who blocked the sender are left out. Direct rooms have no mentions.
+export async function resolveMentions(room: Pick<ChatRoom, 'id' | 'type'>, senderId: string, content: string): Promise<string[]> {
+    if (room.type === 'direct') return [];
+    const nicknames = extractMentionedNicknames(content);
+    if (nicknames.length === 0) return [];
+
+    const mentioned = await db.select({ id: users.id })
+        .from(users)
+        .where(and(inArray(users.nickname, nicknames), ne(users.id, senderId)));
+    let mentionedIds = mentioned.map(user => user.id);
+    if (mentionedIds.length === 0) return [];
+
+    // Every user is a member of the public room
+    if (!isPublicRoom(room.id)) {
+        const members = await db.select({ userId: roomMembers.userId })
+            .from(roomMembers)
+            .where(and(eq(roomMembers.roomId, room.id), inArray(roomMembers.userId, mentionedIds)));
+        mentionedIds = members.map(member => member.userId);
+        if (mentionedIds.length === 0) return [];
+    }
+
+    const blockers = await db.select({ ownerId: buddies.ownerId })
+        .from(buddies)
+        .where(and(inArray(buddies.ownerId, mentionedIds), eq(buddies.buddyId, senderId), eq(buddies.state, 'blocked')));
+    const blockerIds = new Set(blockers.map(row => row.ownerId));
+    return mentionedIds.filter(id => !blockerIds.has(id));
+}
+
+// Tell mentioned users about a message on their own stream, whichever room they are looking at
+export function notifyMentions(message: Message, userIds: string[], senderNickname: string, roomName?: string | null) {
+    const mention: MentionEvent = { message, senderNickname, roomName: roomName ?? undefined };
+    for (const userId of userIds) {
+        sseEmitter.emitToUser(userId, { type: 'mention', data: mention });
+    }
+    if (userIds.length > 0) {
+        log.debug('Mentions sent', { messageId: message.id, chatRoomId: message.chatRoomId, recipients: userIds.length });
+    }
+}
@@ -0,0 +1,48 @@
+// Nicknames only contain letters, digits, underscores and dashes (see the registration schema)
+const MENTION_PATTERN = /(^|[^a-zA-Z0-9_-])@([a-zA-Z0-9_-]+)/g;
+const MENTION_QUERY_PATTERN = /(?:^|[^a-zA-Z0-9_-])@([a-zA-Z0-9_-]*)$/;
+
+// More mentions in a single message are ignored
+export const MAX_MENTIONS_PER_MESSAGE = 10;
+
+/**
+ * Nicknames mentioned with `@nickname` in a message
+ * @param content - The message content
+ * @returns The distinct nicknames, in order of appearance, at most MAX_MENTIONS_PER_MESSAGE
+ */
+export function extractMentionedNicknames(content: string): string[] {
+  const nicknames = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    nicknames.add(match[2]);
+    if (nicknames.size >= MAX_MENTIONS_PER_MESSAGE) break;
+  }
+  return Array.from(nicknames);
+}
+
+/**
+ * The mention being typed right before the caret, for the composer's autocomplete
+ * @param text - The composer content
+ * @param caret - Position of the caret in the text
+ * @returns The typed part of the nickname and where its `@` starts, or null when no mention is being typed
+ */
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+  if (!match) return null;
+  return { query: match[1], start: caret - match[1].length - 1 };
+}
+
+/**
+ * Replace the mention being typed with a full `@nickname `
+ * @param text - The composer content
+ * @param start - Position of the `@`, as returned by getMentionQuery
+ * @param caret - Position of the caret in the text
+ * @param nickname - The chosen nickname
+ * @returns The new content and the caret position after the inserted mention
+ */
+export function insertMention(text: string, start: number, caret: number, nickname: string): { text: string; caret: number } {
+  const mention = `@${nickname} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret).replace(/^ /, ''),
+    caret: start + mention.length
+  };
+}
@@ -0,0 +1,203 @@
+import db from '$lib/db/db.server';
+import { messageRevisions, messages } from '$lib/db/schema';
+import { and, asc, desc, eq, gt, lt, notInArray, or } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import type { Message, MessageDeletedEvent } from '$lib/types/chat';
+import { toMessage } from '$lib/utils/chat.server';
+import { emitRoomEvent } from '$lib/utils/rooms.server';
+import { hiddenReportedMessageIds } from '$lib/utils/reports.server';
+
+// Position in a room's history. Messages are ordered by timestamp, then id for identical timestamps.
+interface MessageCursor {
+    timestamp: number;
+    id: string;
+}
+
+export interface MessagePage {
+    messages: Message[]; // Oldest first
+    hasMoreBefore: boolean;
+    hasMoreAfter: boolean;
+    beforeCursor?: string; // Cursor of the oldest message, to load the previous page
+    afterCursor?: string;  // Cursor of the newest message, to load the next page
+}
+
+export type MessagePageAnchor =
+    | { mode: 'latest' }
+    | { mode: 'before'; cursor: string }
+    | { mode: 'after'; cursor: string }
+    | { mode: 'around'; messageId: string };
+
+export interface MessagePageOptions {
+    hideReported?: boolean; // Leave out messages hidden by user reports (public fetches)
+}
+
+// URL-safe base64 with Web APIs only, Node's Buffer is not available on every deploy target
+function toBase64Url(text: string): string {
+    const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string | null {
+    try {
+        const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+        return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+    } catch {
+        return null;
+    }
+}
+
+export function encodeMessageCursor(message: Pick<Message, 'timestamp' | 'id'>): string {
+    return toBase64Url(`${message.timestamp}:${message.id}`);
+}
+
+// Cursors are opaque to clients; a bare timestamp is still accepted for the legacy `before` parameter
+export function decodeMessageCursor(cursor: string): MessageCursor | null {
+    if (/^\d+$/.test(cursor)) {
+        return { timestamp: parseInt(cursor, 10), id: '' };
+    }
+
+    const decoded = fromBase64Url(cursor);
+    if (decoded === null) return null;
+    const separator = decoded.indexOf(':');
+    const timestamp = parseInt(decoded.slice(0, separator), 10);
+    if (separator <= 0 || Number.isNaN(timestamp)) return null;
+    return { timestamp, id: decoded.slice(separator + 1) };
+}
+
+function isBefore(cursor: MessageCursor): SQL {
+    return or(
+        lt(messages.timestamp, cursor.timestamp),
+        and(eq(messages.timestamp, cursor.timestamp), lt(messages.id, cursor.id))
+    )!;
+}
+
+function isAfter(cursor: MessageCursor): SQL {
+    return or(
+        gt(messages.timestamp, cursor.timestamp),
+        and(eq(messages.timestamp, cursor.timestamp), gt(messages.id, cursor.id))
+    )!;
+}
+
+function roomConditions(roomId: string, options: MessagePageOptions): SQL[] {
+    const conditions = [eq(messages.chatRoomId, roomId)];
+    if (options.hideReported) conditions.push(notInArray(messages.id, hiddenReportedMessageIds()));
+    return conditions;
+}
+
+// Up to `limit` messages of the room on one side of a cursor, with one extra row telling whether more exist
+async function fetchSide(roomId: string, side: 'before' | 'after', cursor: MessageCursor | null, limit: number, options: MessagePageOptions) {
+    if (limit <= 0) return { rows: [] as Message[], hasMore: false };
+
+    const conditions = roomConditions(roomId, options);
+    if (cursor) conditions.push(side === 'before' ? isBefore(cursor) : isAfter(cursor));
+    const order = side === 'before'
+        ? [desc(messages.timestamp), desc(messages.id)]
+        : [asc(messages.timestamp), asc(messages.id)];
+
+    const rows = await db.select()
+        .from(messages)
+        .where(and(...conditions))
+        .orderBy(...order)
+        .limit(limit + 1);
+
+    const page = rows.slice(0, limit).map(toMessage);
+    return {
+        // Always return oldest first
+        rows: side === 'before' ? page.reverse() : page,
+        hasMore: rows.length > limit
+    };
+}
+
+// Whether the room has any message on one side of a cursor
+async function hasMessagesBeyond(roomId: string, side: 'before' | 'after', cursor: MessageCursor, options: MessagePageOptions): Promise<boolean> {
+    const row = await db.select({ id: messages.id })
+        .from(messages)
+        .where(and(...roomConditions(roomId, options), side === 'before' ? isBefore(cursor) : isAfter(cursor)))
+        .limit(1)
+        .get();
+    return Boolean(row);
+}
+
+function toPage(pageMessages: Message[], hasMoreBefore: boolean, hasMoreAfter: boolean): MessagePage {
+    const oldest = pageMessages[0];
+    const newest = pageMessages[pageMessages.length - 1];
+    return {
+        messages: pageMessages,
+        hasMoreBefore,
+        hasMoreAfter,
+        beforeCursor: oldest ? encodeMessageCursor(oldest) : undefined,
+        afterCursor: newest ? encodeMessageCursor(newest) : undefined
+    };
+}
+
+// Load a page of a room's history. Returns null when the anchor is invalid or not in the room.
+export async function getMessagePage(
+    roomId: string,
+    anchor: MessagePageAnchor,
+    limit: number,
+    options: MessagePageOptions = {}
+): Promise<MessagePage | null> {
+    switch (anchor.mode) {
+        case 'latest': {
+            const { rows, hasMore } = await fetchSide(roomId, 'before', null, limit, options);
+            return toPage(rows, hasMore, false);
+        }
+        case 'before': {
+            const cursor = decodeMessageCursor(anchor.cursor);
+            if (!cursor) return null;
+            const { rows, hasMore } = await fetchSide(roomId, 'before', cursor, limit, options);
+            const newest = rows[rows.length - 1];
+            const hasMoreAfter = await hasMessagesBeyond(roomId, 'after', newest ?? cursor, options);
+            return toPage(rows, hasMore, hasMoreAfter);
+        }
+        case 'after': {
+            const cursor = decodeMessageCursor(anchor.cursor);
+            if (!cursor) return null;
+            const { rows, hasMore } = await fetchSide(roomId, 'after', cursor, limit, options);
+            const oldest = rows[0];
+            const hasMoreBefore = await hasMessagesBeyond(roomId, 'before', oldest ?? cursor, options);
+            return toPage(rows, hasMoreBefore, hasMore);
+        }
+        case 'around': {
+            const target = await db.select()
+                .from(messages)
+                .where(and(eq(messages.id, anchor.messageId), ...roomConditions(roomId, options)))
+                .get();
+            if (!target) return null;
+
+            // Center the page on the target message
+            const cursor = { timestamp: target.timestamp, id: target.id };
+            const beforeLimit = Math.floor((limit - 1) / 2);
+            const [before, after] = await Promise.all([
+                fetchSide(roomId, 'before', cursor, beforeLimit, options),
+                fetchSide(roomId, 'after', cursor, limit - 1 - beforeLimit, options)
+            ]);
+            return toPage([...before.rows, toMessage(target), ...after.rows], before.hasMore, after.hasMore);
+        }
+    }
+}
+
+// Replace a message with a tombstone, keeping its content as a revision, and tell the room
+export async function tombstoneMessage(message: Message): Promise<MessageDeletedEvent> {
+    const now = Date.now();
+    await db.transaction(async (tx) => {
+        await tx.insert(messageRevisions).values({
+            messageId: message.id,
+            content: message.content,
+            styleData: message.styleData ?? null,
+            createdAt: now
+        });
+
+        await tx.update(messages)
+            .set({ content: '', styleData: null, hasFormatting: false, mentions: null, deletedAt: now })
+            .where(eq(messages.id, message.id));
+    });
+
+    const deletedEvent: MessageDeletedEvent = {
+        messageId: message.id,
+        chatRoomId: message.chatRoomId,
+        deletedAt: now
+    };
+    emitRoomEvent(message.chatRoomId, { type: 'messageDeleted', data: deletedEvent });
+    return deletedEvent;
+}
@@ -0,0 +1,306 @@
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '$env/dynamic/private';
+import db from '$lib/db/db.server';
+import { messages, moderationLogs, sanctions, sessions, users } from '$lib/db/schema';
+import { and, desc, eq, gt, inArray, isNull, ne, or } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
+import type {
+    Message,
+    ModerationAction,
+    ModerationLogSummary,
+    Sanction,
+    SanctionAppliedEvent,
+    SanctionSummary,
+    SanctionType,
+    User,
+    UserRole
+} from '$lib/types/chat';
+import { createSafeUser } from '$lib/types/chat';
+import { invalidateAllSessions } from '$lib/api/session.server';
+import { sseEmitter } from '$lib/sseEmitter';
+import { DEFAULT_CHAT_ROOM_ID } from '$lib/utils/chat.server';
+import { emitRoomEvent } from '$lib/utils/rooms.server';
+import { pushPresenceDelta } from '$lib/utils/buddies.server';
+import { createLogger } from '$lib/utils/logger.server';
+
+const log = createLogger('moderation-utils');
+
+const ROLE_RANKS: Record<UserRole, number> = {
+    user: 0,
+    moderator: 1,
+    admin: 2
+};
+
+export function hasRole(user: Pick<User, 'role'> | null | undefined, role: UserRole): boolean {
+    return user ? ROLE_RANKS[user.role] >= ROLE_RANKS[role] : false;
+}
+
+// Moderators can only act on users below their own role, and never on themselves
+export function canModerate(actor: Pick<User, 'id' | 'role'>, target: Pick<User, 'id' | 'role'>): boolean {
+    return actor.id !== target.id && ROLE_RANKS[actor.role] > ROLE_RANKS[target.role];
+}
+
+// Promote the users listed in ADMIN_NICKNAMES, so a fresh install has someone to hand out roles
+export async function ensureConfiguredAdmins(): Promise<void> {
+    const nicknames = (env.ADMIN_NICKNAMES ?? '').split(',').map(nickname => nickname.trim()).filter(Boolean);
+    if (nicknames.length === 0) return;
+
+    const promoted = await db.update(users)
+        .set({ role: 'admin' })
+        .where(and(inArray(users.nickname, nicknames), ne(users.role, 'admin')))
+        .returning({ id: users.id });
+    if (promoted.length > 0) {
+        log.info('Configured admins promoted', { count: promoted.length });
+    }
+}
+
+// Load the user a moderator wants to act on, or the reason why they may not
+export async function getModerationTarget(
+    actor: Pick<User, 'id' | 'role'>,
+    userId: string
+): Promise<{ target: User } | { error: string; status: number }> {
+    const target = await db.select()
+        .from(users)
+        .where(eq(users.id, userId))
+        .get();
+
+    if (!target) {
+        return { error: 'User not found', status: 404 };
+    }
+    if (!canModerate(actor, target)) {
+        log.warn('Moderation refused on user with equal or higher role', {
+            actorId: `${actor.id.slice(0, 4)}...${actor.id.slice(-4)}`,
+            targetUserId: `${userId.slice(0, 4)}...${userId.slice(-4)}`
+        });
+        return { error: 'You cannot moderate this user', status: 403 };
+    }
+    return { target };
+}
+
+// Only used outside of production, where no secret is configured
+const DEVELOPMENT_IP_HASH_SECRET = 'development-ip-hash-secret';
+let ipHashKey: Promise<CryptoKey> | undefined;
+
+// Called on server start: without a secret, production refuses to boot
+export function ensureIpHashSecret(): void {
+    if (env.IP_HASH_SECRET) return;
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('IP_HASH_SECRET must be set in production');
+    }
+    log.warn('IP_HASH_SECRET is not set, IP addresses are hashed with a development key');
+}
+
+function getIpHashKey(): Promise<CryptoKey> {
+    if (!ipHashKey) {
+        const secret = env.IP_HASH_SECRET || (process.env.NODE_ENV === 'production' ? '' : DEVELOPMENT_IP_HASH_SECRET);
+        if (!secret) throw new Error('IP_HASH_SECRET must be set in production');
+        ipHashKey = crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(secret),
+            { name: 'HMAC', hash: 'SHA-256' },
+            false,
+            ['sign']
+        );
+    }
+    return ipHashKey;
+}
+
+// IP addresses are only stored as an HMAC keyed with the server secret:
+// a plain hash of the few billion IPv4 addresses would be easy to reverse
+export async function hashIp(ip: string): Promise<string> {
+    const signature = await crypto.subtle.sign('HMAC', await getIpHashKey(), new TextEncoder().encode(ip.trim().toLowerCase()));
+    return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Users whose sessions were last used from an IP address: banning the address reaches them too
+export async function getUsersSeenOnIp(ipHash: string): Promise<Pick<User, 'id' | 'role'>[]> {
+    const rows = await db.selectDistinct({ id: users.id, role: users.role })
+        .from(sessions)
+        .innerJoin(users, eq(users.id, sessions.userId))
+        .where(eq(sessions.ipHash, ipHash));
+    return rows;
+}
+
+// Sanctions not lifted and not expired yet
+function isActive(now: number): SQL {
+    return and(
+        isNull(sanctions.liftedAt),
+        or(isNull(sanctions.expiresAt), gt(sanctions.expiresAt, now))
+    )!;
+}
+
+export async function getActiveMute(userId: string): Promise<Sanction | undefined> {
+    const row = await db.select()
+        .from(sanctions)
+        .where(and(eq(sanctions.type, 'mute'), eq(sanctions.userId, userId), isActive(Date.now())))
+        .orderBy(desc(sanctions.createdAt))
+        .get();
+    return row;
+}
+
+// Active ban of the user or of the IP address the request comes from
+export async function getActiveBan(target: { userId?: string; ipHash?: string }): Promise<Sanction | undefined> {
+    const targets: SQL[] = [];
+    if (target.userId) targets.push(eq(sanctions.userId, target.userId));
+    if (target.ipHash) targets.push(eq(sanctions.ipHash, target.ipHash));
+    if (targets.length === 0) return undefined;
+
+    const row = await db.select()
+        .from(sanctions)
+        .where(and(eq(sanctions.type, 'ban'), or(...targets), isActive(Date.now())))
+        .get();
+    return row;
+}
+
+export async function createSanction(values: {
+    type: SanctionType;
+    createdBy: string;
+    userId?: string;
+    ipHash?: string;
+    reason?: string;
+    durationMinutes?: number;
+}): Promise<Sanction> {
+    const now = Date.now();
+    const row = await db.insert(sanctions)
+        .values({
+            type: values.type,
+            userId: values.userId ?? null,
+            ipHash: values.ipHash ?? null,
+            reason: values.reason || null,
+            createdBy: values.createdBy,
+            createdAt: now,
+            expiresAt: values.durationMinutes ? now + values.durationMinutes * 60 * 1000 : null
+        })
+        .returning()
+        .get();
+    return row;
+}
+
+// Lift an active sanction; returns undefined when it does not exist or is no longer active
+export async function liftSanction(sanctionId: string, liftedBy: string): Promise<Sanction | undefined> {
+    const row = await db.update(sanctions)
+        .set({ liftedAt: Date.now(), liftedBy })
+        .where(and(eq(sanctions.id, sanctionId), isActive(Date.now())))
+        .returning()
+        .get();
+    return row;
+}
+
+// Active mutes and bans with the nicknames needed to list them
+export async function getActiveSanctions(): Promise<SanctionSummary[]> {
+    const sanctionedUsers = alias(users, 'sanctioned_users');
+    const moderators = alias(users, 'moderators');
+    const rows = await db.select({
+            sanction: sanctions,
+            userNickname: sanctionedUsers.nickname,
+            createdByNickname: moderators.nickname
+        })
+        .from(sanctions)
+        .leftJoin(sanctionedUsers, eq(sanctionedUsers.id, sanctions.userId))
+        .innerJoin(moderators, eq(moderators.id, sanctions.createdBy))
+        .where(isActive(Date.now()))
+        .orderBy(desc(sanctions.createdAt));
+
+    return rows.map(row => ({
+        ...row.sanction,
+        userNickname: row.userNickname ?? undefined,
+        createdByNickname: row.createdByNickname
+    }));
+}
+
+export async function getRecentModerationLogs(limit: number): Promise<ModerationLogSummary[]> {
+    const actors = alias(users, 'actors');
+    const targets = alias(users, 'targets');
+    const rows = await db.select({
+            entry: moderationLogs,
+            actorNickname: actors.nickname,
+            targetNickname: targets.nickname
+        })
+        .from(moderationLogs)
+        .innerJoin(actors, eq(actors.id, moderationLogs.actorId))
+        .leftJoin(targets, eq(targets.id, moderationLogs.targetUserId))
+        .orderBy(desc(moderationLogs.createdAt))
+        .limit(limit);
+
+    return rows.map(row => ({
+        ...row.entry,
+        actorNickname: row.actorNickname,
+        targetNickname: row.targetNickname ?? undefined
+    }));
+}
+
+export async function logModerationAction(entry: {
+    actorId: string;
+    action: ModerationAction;
+    targetUserId?: string;
+    targetIpHash?: string;
+    sanctionId?: string;
+    reason?: string;
+    details?: Record<string, unknown>;
+}): Promise<void> {
+    await db.insert(moderationLogs).values({
+        actorId: entry.actorId,
+        action: entry.action,
+        targetUserId: entry.targetUserId ?? null,
+        targetIpHash: entry.targetIpHash ?? null,
+        sanctionId: entry.sanctionId ?? null,
+        reason: entry.reason || null,
+        details: entry.details ? JSON.stringify(entry.details) : null,
+        createdAt: Date.now()
+    });
+    log.info('Moderation action', {
+        action: entry.action,
+        actorId: `${entry.actorId.slice(0, 4)}...${entry.actorId.slice(-4)}`,
+        targetUserId: entry.targetUserId ? `${entry.targetUserId.slice(0, 4)}...${entry.targetUserId.slice(-4)}` : undefined
+    });
+}
+
+// Announce a moderation action, in the public room by default. System messages are attributed to the moderator.
+export async function postSystemMessage(senderId: string, content: string, chatRoomId = DEFAULT_CHAT_ROOM_ID): Promise<Message> {
+    const systemMessage: Message = {
+        id: uuidv4(),
+        chatRoomId,
+        senderId,
+        content,
+        type: 'system',
+        timestamp: Date.now(),
+        hasFormatting: false
+    };
+    await db.insert(messages).values(systemMessage);
+    emitRoomEvent(chatRoomId, { type: 'chatMessage', data: systemMessage });
+    return systemMessage;
+}
+
+// Send an event to every connected moderator and admin
+export async function notifyModerators(event: { type: string; data: unknown }): Promise<void> {
+    const moderators = await db.select({ id: users.id })
+        .from(users)
+        .where(inArray(users.role, ['moderator', 'admin']));
+    moderators.forEach(moderator => sseEmitter.emitToUser(moderator.id, event));
+}
+
+// Tell a sanctioned user's clients about the sanction
+export function notifySanctionedUser(userId: string, event: SanctionAppliedEvent) {
+    sseEmitter.emitToUser(userId, { type: 'sanctionApplied', data: event });
+}
+
+// Close every session and open stream of a user and show them offline
+export async function disconnectUser(userId: string): Promise<void> {
+    await invalidateAllSessions(userId);
+
+    const user = await db.update(users)
+        .set({ status: 'offline', lastSeen: Date.now() })
+        .where(eq(users.id, userId))
+        .returning()
+        .get();
+    if (user) await pushPresenceDelta(createSafeUser(user), 'offline');
+}
+
+// Human readable duration for system messages
+export function formatSanctionDuration(durationMinutes?: number): string {
+    if (!durationMinutes) return 'définitivement';
+    if (durationMinutes < 60) return `pour ${durationMinutes} min`;
+    if (durationMinutes < 24 * 60) return `pour ${Math.round(durationMinutes / 60)} h`;
+    return `pour ${Math.round(durationMinutes / (24 * 60))} j`;
+}
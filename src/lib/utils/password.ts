@@ -23,13 +23,77 @@ function hexToBuffer(hex: string): Uint8Array {
   return arr;
 }
 
+/**
+ * Parameters a password hash was derived with. They are stored in the hash string
+ * so they can be raised over time without invalidating existing hashes.
+ */
+export interface PasswordHashParams {
+  algorithm: 'pbkdf2-sha512';
+  iterations: number;
+  saltLength: number; // In bytes
+}
+
+/**
+ * Parameters used for new hashes. Raising them makes existing users' hashes upgrade on their next login.
+ * Cloudflare Workers refuse PBKDF2 above 100000 iterations, so the cost cannot go higher there.
+ */
+export const CURRENT_HASH_PARAMS: PasswordHashParams = {
+  algorithm: 'pbkdf2-sha512',
+  iterations: 100000,
+  saltLength: 16
+};
+
+/**
+ * Parameters of the original 'salt:hash' format, which did not store them.
+ */
+const LEGACY_HASH_PARAMS: PasswordHashParams = {
+  algorithm: 'pbkdf2-sha512',
+  iterations: 100000,
+  saltLength: 16
+};
+
+interface ParsedPasswordHash {
+  params: PasswordHashParams;
+  isLegacy: boolean; // In the 'salt:hash' format
+  salt: Uint8Array;
+  hash: string;
+}
+
+/**
+ * Parses a stored hash, either '$pbkdf2-sha512$i=<iterations>,s=<salt length>$<salt>$<hash>'
+ * or the legacy 'salt:hash' format.
+ * @returns The parsed hash, or null if the string is not a hash this module produced.
+ */
+function parsePasswordHash(stored: string): ParsedPasswordHash | null {
+  try {
+    if (!stored.startsWith('$')) {
+      const [saltHex, hash] = stored.split(':');
+      if (!saltHex || !hash) return null;
+      return { params: LEGACY_HASH_PARAMS, isLegacy: true, salt: hexToBuffer(saltHex), hash };
+    }
+
+    const [, algorithm, paramString, saltHex, hash] = stored.split('$');
+    if (algorithm !== 'pbkdf2-sha512' || !saltHex || !hash) return null;
+    const params = Object.fromEntries(paramString.split(',').map(param => param.split('=')));
+    const iterations = Number(params.i);
+    const saltLength = Number(params.s);
+    if (!Number.isInteger(iterations) || iterations <= 0 || !Number.isInteger(saltLength) || saltLength <= 0) {
+      return null;
+    }
+    return { params: { algorithm, iterations, saltLength }, isLegacy: false, salt: hexToBuffer(saltHex), hash };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Derives a password hash using PBKDF2 with the provided salt.
  * @param password The plain text password.
  * @param salt Uint8Array salt.
+ * @param params The parameters to derive the hash with.
  * @returns The derived key in hex format.
  */
-async function derivePasswordHash(password: string, salt: Uint8Array): Promise<string> {
+async function derivePasswordHash(password: string, salt: Uint8Array, params: PasswordHashParams): Promise<string> {
   const enc = new TextEncoder();
   const keyMaterial = enc.encode(password);
   console.debug("$state: Key material for password derivation", keyMaterial);
@@ -44,7 +108,7 @@ async function derivePasswordHash(password: string, salt: Uint8Array): Promise<s
     {
       name: "PBKDF2",
       salt: salt,
-      iterations: 100000,
+      iterations: params.iterations,
       hash: "SHA-512"
     },
     key,
@@ -55,29 +119,46 @@ async function derivePasswordHash(password: string, salt: Uint8Array): Promise<s
 }
 
 /**
- * Securely hashes a password using PBKDF2 with a random salt.
+ * Securely hashes a password using PBKDF2 with a random salt and the current parameters.
  * @param password The plain text password to hash.
- * @returns A promise that resolves to the hashed password in the format 'salt:hash'.
+ * @returns A promise that resolves to the hashed password in the format
+ * '$pbkdf2-sha512$i=<iterations>,s=<salt length>$<salt>$<hash>'.
  */
 export async function hashPassword(password: string): Promise<string> {
-  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const params = CURRENT_HASH_PARAMS;
+  const salt = crypto.getRandomValues(new Uint8Array(params.saltLength));
   console.debug("$state: Generated salt", salt);
   const saltHex = bufferToHex(salt.buffer);
-  const hash = await derivePasswordHash(password, salt);
-  return `${saltHex}:${hash}`;
+  const hash = await derivePasswordHash(password, salt, params);
+  return `$${params.algorithm}$i=${params.iterations},s=${params.saltLength}$${saltHex}$${hash}`;
 }
 
 /**
- * Verify a password hash created by hashPassword().
+ * Verify a password hash created by hashPassword(), in the current or a previous format.
  * @param password The plain text password to verify.
- * @param hash The hashed password to verify against in format 'salt:hash'.
- * @returns A promise that resolves to true if the password matches, false otherwise.
+ * @param hash The hashed password to verify against.
+ * @returns A promise that resolves to true if the password matches, false otherwise
+ * (including when the stored hash cannot be parsed).
  */
 export async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  const [saltHex, hashValue] = hash.split(':');
-  const salt = hexToBuffer(saltHex);
-  console.debug("$state: Salt extracted from stored hash", salt);
-  const derivedHash = await derivePasswordHash(password, salt);
+  const parsed = parsePasswordHash(hash);
+  if (!parsed) return false;
+  console.debug("$state: Salt extracted from stored hash", parsed.salt);
+  const derivedHash = await derivePasswordHash(password, parsed.salt, parsed.params);
   console.debug("$state: Derived hash for verification", derivedHash);
-  return derivedHash === hashValue;
-} 
\ No newline at end of file
+  return derivedHash === parsed.hash;
+}
+
+/**
+ * Whether a stored hash was derived with weaker parameters than the current ones, or does not
+ * store its parameters, and should be replaced after the next successful verification.
+ * @param hash The stored password hash.
+ */
+export function needsRehash(hash: string): boolean {
+  const parsed = parsePasswordHash(hash);
+  if (!parsed) return false;
+  return parsed.isLegacy
+    || parsed.params.algorithm !== CURRENT_HASH_PARAMS.algorithm
+    || parsed.params.iterations < CURRENT_HASH_PARAMS.iterations
+    || parsed.params.saltLength < CURRENT_HASH_PARAMS.saltLength;
+}
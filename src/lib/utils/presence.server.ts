@@ -0,0 +1,55 @@
+import { v4 as uuidv4 } from 'uuid';
+import db from '$lib/db/db.server';
+import { awayReplies, messages, users } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { ChatRoom, Message } from '$lib/types/chat';
+import { createLogger } from '$lib/utils/logger.server';
+import { emitRoomEvent, getRoomMemberIds } from '$lib/utils/rooms.server';
+import { getActiveMute } from '$lib/utils/moderation.server';
+
+const log = createLogger('presence-utils');
+
+// Forget which conversations were answered, so a new away message is sent once more to each
+export async function resetAwayReplies(userId: string): Promise<void> {
+    await db.delete(awayReplies).where(eq(awayReplies.userId, userId));
+}
+
+// Answer an instant message on behalf of an away recipient who is not muted, once per conversation
+export async function sendAwayReply(room: Pick<ChatRoom, 'id' | 'type'>, senderId: string): Promise<Message | null> {
+    if (room.type !== 'direct') return null;
+
+    const recipientId = (await getRoomMemberIds(room.id)).find(id => id !== senderId);
+    if (!recipientId) return null;
+
+    const recipient = await db.select({ awayMessage: users.awayMessage })
+        .from(users)
+        .where(eq(users.id, recipientId))
+        .get();
+    if (!recipient?.awayMessage) return null;
+    // Muted users cannot post, not even through their away message
+    if (await getActiveMute(recipientId)) return null;
+
+    // Claiming the reply first keeps concurrent messages, on any instance, from answering twice
+    const claimed = await db.insert(awayReplies)
+        .values({ userId: recipientId, roomId: room.id, senderId, createdAt: Date.now() })
+        .onConflictDoNothing()
+        .returning({ roomId: awayReplies.roomId });
+    if (claimed.length === 0) return null;
+
+    const reply: Message = {
+        id: uuidv4(),
+        chatRoomId: room.id,
+        senderId: recipientId,
+        content: recipient.awayMessage,
+        type: 'autoReply',
+        timestamp: Date.now(),
+        hasFormatting: false
+    };
+    await db.insert(messages).values(reply);
+    emitRoomEvent(room.id, { type: 'chatMessage', data: reply });
+    log.debug('Away message sent', {
+        roomId: room.id,
+        userId: `${recipientId.slice(0, 4)}...${recipientId.slice(-4)}`
+    });
+    return reply;
+}
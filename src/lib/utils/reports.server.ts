@@ -0,0 +1,99 @@
+import { env } from '$env/dynamic/private';
+import db from '$lib/db/db.server';
+import { messageReports, messages, users } from '$lib/db/schema';
+import { and, count, desc, eq, isNotNull, isNull, max, sql } from 'drizzle-orm';
+import type { Message, MessageReport, ReportSummary } from '$lib/types/chat';
+import { toMessage } from '$lib/utils/chat.server';
+
+// Open reports after which a message is hidden from public fetches
+export const REPORT_HIDE_THRESHOLD = Math.max(1, parseInt(env.REPORT_HIDE_THRESHOLD ?? '', 10) || 3);
+
+// Ids of the messages with enough open reports to be hidden from logged-out visitors.
+// Only users' reports count: content filter flags alone never hide a message.
+export function hiddenReportedMessageIds() {
+    return db.select({ messageId: messageReports.messageId })
+        .from(messageReports)
+        .where(and(isNull(messageReports.resolvedAt), isNotNull(messageReports.reporterId)))
+        .groupBy(messageReports.messageId)
+        .having(sql`count(*) >= ${REPORT_HIDE_THRESHOLD}`);
+}
+
+// Open reports from users, the ones counted towards REPORT_HIDE_THRESHOLD
+async function countOpenReports(messageId: string): Promise<number> {
+    const row = await db.select({ total: count() })
+        .from(messageReports)
+        .where(and(
+            eq(messageReports.messageId, messageId),
+            isNull(messageReports.resolvedAt),
+            isNotNull(messageReports.reporterId)
+        ))
+        .get();
+    return row?.total ?? 0;
+}
+
+// Filter flags have no reporter, so the unique index on (message, reporter) does not dedupe them
+async function hasOpenFilterFlag(messageId: string): Promise<boolean> {
+    const row = await db.select({ id: messageReports.id })
+        .from(messageReports)
+        .where(and(
+            eq(messageReports.messageId, messageId),
+            isNull(messageReports.resolvedAt),
+            isNull(messageReports.reporterId)
+        ))
+        .get();
+    return row !== undefined;
+}
+
+// Record a report, without reporter for content filter flags.
+// Returns null when the user already reported the message, or when the filter already flagged it.
+export async function createReport(
+    message: Message,
+    reporterId: string | null,
+    reason: string
+): Promise<{ report: MessageReport; reportCount: number } | null> {
+    if (reporterId === null && await hasOpenFilterFlag(message.id)) return null;
+
+    const report = await db.insert(messageReports)
+        .values({ messageId: message.id, reporterId, reason, createdAt: Date.now() })
+        .onConflictDoNothing()
+        .returning()
+        .get();
+    if (!report) return null;
+
+    return { report, reportCount: await countOpenReports(message.id) };
+}
+
+// Reported messages still waiting for a moderator, most recently reported first
+export async function getOpenReports(limit: number): Promise<ReportSummary[]> {
+    const rows = await db.select({
+            message: messages,
+            senderNickname: users.nickname,
+            reportCount: count(messageReports.id),
+            reasons: sql<string>`json_group_array(${messageReports.reason})`,
+            lastReportedAt: max(messageReports.createdAt)
+        })
+        .from(messageReports)
+        .innerJoin(messages, eq(messages.id, messageReports.messageId))
+        .innerJoin(users, eq(users.id, messages.senderId))
+        .where(isNull(messageReports.resolvedAt))
+        .groupBy(messageReports.messageId)
+        .orderBy(desc(max(messageReports.createdAt)))
+        .limit(limit);
+
+    return rows.map(row => ({
+        message: toMessage(row.message),
+        senderNickname: row.senderNickname,
+        reportCount: row.reportCount,
+        reasons: JSON.parse(row.reasons) as string[],
+        lastReportedAt: row.lastReportedAt ?? 0
+    }));
+}
+
+// Close the open reports of a message; returns how many were closed
+export async function resolveReports(messageId: string, resolvedBy: string): Promise<number> {
+    const resolved = await db.update(messageReports)
+        .set({ resolvedAt: Date.now(), resolvedBy })
+        .where(and(eq(messageReports.messageId, messageId), isNull(messageReports.resolvedAt)))
+        .returning({ id: messageReports.id });
+    return resolved.length;
+}
@@ -0,0 +1,175 @@
+import db from '$lib/db/db.server';
+import { chatRooms, roomMembers } from '$lib/db/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import type { ChatRoom, RoomMemberRole, RoomSummary } from '$lib/types/chat';
+import { DEFAULT_CHAT_ROOM_ID } from '$lib/utils/chat.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { sseEmitter } from '$lib/sseEmitter';
+
+const log = createLogger('rooms-utils');
+
+// The default room is public: every user is implicitly a member of it
+export function isPublicRoom(roomId: string): boolean {
+    return roomId === DEFAULT_CHAT_ROOM_ID;
+}
+
+// The public room is broadcast, other rooms only reach their members' streams
+export function emitRoomEvent(roomId: string, event: { type: string; data: unknown }) {
+    if (isPublicRoom(roomId)) {
+        sseEmitter.broadcast(event);
+    } else {
+        sseEmitter.emitToRoom(roomId, event);
+    }
+}
+
+export async function getRoom(roomId: string): Promise<ChatRoom | undefined> {
+    const room = await db.select()
+        .from(chatRooms)
+        .where(eq(chatRooms.id, roomId))
+        .get();
+    return room ? { ...room, name: room.name ?? undefined } : undefined;
+}
+
+export async function isRoomMember(roomId: string, userId: string): Promise<boolean> {
+    if (isPublicRoom(roomId)) return true;
+
+    const membership = await db.select({ userId: roomMembers.userId })
+        .from(roomMembers)
+        .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)))
+        .get();
+    return Boolean(membership);
+}
+
+export async function getRoomMemberIds(roomId: string): Promise<string[]> {
+    const rows = await db.select({ userId: roomMembers.userId })
+        .from(roomMembers)
+        .where(eq(roomMembers.roomId, roomId));
+    return rows.map(row => row.userId);
+}
+
+export async function getUserRoomIds(userId: string): Promise<string[]> {
+    const rows = await db.select({ roomId: roomMembers.roomId })
+        .from(roomMembers)
+        .where(eq(roomMembers.userId, userId));
+    return rows.map(row => row.roomId);
+}
+
+export async function addRoomMember(roomId: string, userId: string, role: RoomMemberRole = 'member'): Promise<boolean> {
+    const inserted = await db.insert(roomMembers)
+        .values({ roomId, userId, role, joinedAt: Date.now() })
+        .onConflictDoNothing()
+        .returning({ userId: roomMembers.userId });
+
+    if (inserted.length > 0) {
+        sseEmitter.addUserToRoom(userId, roomId);
+        log.debug('Room member added', { roomId, userId: `${userId.slice(0, 4)}...${userId.slice(-4)}`, role });
+    }
+    return inserted.length > 0;
+}
+
+export async function removeRoomMember(roomId: string, userId: string): Promise<boolean> {
+    const deleted = await db.delete(roomMembers)
+        .where(and(eq(roomMembers.roomId, roomId), eq(roomMembers.userId, userId)))
+        .returning({ userId: roomMembers.userId });
+
+    if (deleted.length > 0) {
+        sseEmitter.removeUserFromRoom(userId, roomId);
+        log.debug('Room member removed', { roomId, userId: `${userId.slice(0, 4)}...${userId.slice(-4)}` });
+    }
+    return deleted.length > 0;
+}
+
+// Create a room and register its initial members in a single transaction
+export async function createRoom(
+    room: { name: string | null; type: 'direct' | 'group'; directKey?: string },
+    ownerId: string,
+    memberIds: string[] = []
+): Promise<ChatRoom> {
+    const now = Date.now();
+    const createdRoom = await db.transaction(async (tx) => {
+        const created = await tx.insert(chatRooms)
+            .values({ name: room.name, type: room.type, directKey: room.directKey, createdAt: now })
+            .returning()
+            .get();
+
+        const uniqueMemberIds = Array.from(new Set(memberIds.filter(id => id !== ownerId)));
+        await tx.insert(roomMembers).values([
+            { roomId: created.id, userId: ownerId, role: 'owner' as const, joinedAt: now },
+            ...uniqueMemberIds.map(userId => ({ roomId: created.id, userId, role: 'member' as const, joinedAt: now }))
+        ]);
+
+        log.info('Room created', { roomId: created.id, type: created.type, members: uniqueMemberIds.length + 1 });
+        return { ...created, name: created.name ?? undefined };
+    });
+
+    // Subscribe the members' open streams once the room is committed
+    [ownerId, ...memberIds].forEach(memberId => sseEmitter.addUserToRoom(memberId, createdRoom.id));
+    return createdRoom;
+}
+
+// Direct rooms are identified by their two participants, whatever the order
+export function getDirectRoomKey(userId: string, peerId: string): string {
+    return [userId, peerId].sort().join(':');
+}
+
+// Return the direct room between two users, creating it on first use
+export async function findOrCreateDirectRoom(userId: string, peerId: string): Promise<ChatRoom> {
+    const directKey = getDirectRoomKey(userId, peerId);
+
+    const findExisting = async () => {
+        const existing = await db.select()
+            .from(chatRooms)
+            .where(eq(chatRooms.directKey, directKey))
+            .get();
+        return existing ? { ...existing, name: existing.name ?? undefined } : undefined;
+    };
+
+    const existing = await findExisting();
+    if (existing) return existing;
+
+    try {
+        return await createRoom({ name: null, type: 'direct', directKey }, userId, [peerId]);
+    } catch (error) {
+        // Both users may open the conversation at the same time: the unique key lets one insert win
+        const created = await findExisting();
+        if (created) {
+            log.debug('Direct room was created concurrently', { roomId: created.id });
+            return created;
+        }
+        throw error;
+    }
+}
+
+// List the rooms a user belongs to, always including the default public room first
+export async function getUserRooms(userId: string): Promise<RoomSummary[]> {
+    const memberships = await db.select({ roomId: roomMembers.roomId, role: roomMembers.role })
+        .from(roomMembers)
+        .where(eq(roomMembers.userId, userId));
+
+    const roomIds = [DEFAULT_CHAT_ROOM_ID, ...memberships.map(m => m.roomId).filter(id => !isPublicRoom(id))];
+    const roles = new Map(memberships.map(m => [m.roomId, m.role]));
+
+    const rooms = await db.select()
+        .from(chatRooms)
+        .where(inArray(chatRooms.id, roomIds));
+
+    const counts = await db.select({ roomId: roomMembers.roomId, count: sql<number>`count(*)` })
+        .from(roomMembers)
+        .where(inArray(roomMembers.roomId, roomIds))
+        .groupBy(roomMembers.roomId);
+    const countByRoom = new Map(counts.map(c => [c.roomId, Number(c.count)]));
+
+    return rooms
+        .map(room => ({
+            ...room,
+            name: room.name ?? undefined,
+            memberCount: countByRoom.get(room.id) ?? 0,
+            role: isPublicRoom(room.id) ? null : roles.get(room.id) ?? null,
+            peerId: room.directKey?.split(':').find(id => id !== userId)
+        }))
+        .sort((a, b) => {
+            if (isPublicRoom(a.id)) return -1;
+            if (isPublicRoom(b.id)) return 1;
+            return a.createdAt - b.createdAt;
+        });
+}
@@ -0,0 +1,77 @@
+import { and, desc, eq, gte, inArray, isNull, lte, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import db from '$lib/db/db.server';
+import { chatRooms, messages, users } from '$lib/db/schema';
+import { messagesFts } from '$lib/db/messages-fts';
+import {
+    SEARCH_HIGHLIGHT_END,
+    SEARCH_HIGHLIGHT_START,
+    type MessageSearchResult
+} from '$lib/types/chat';
+import { DEFAULT_CHAT_ROOM_ID, toMessage } from '$lib/utils/chat.server';
+import { getUserRoomIds } from '$lib/utils/rooms.server';
+import type { SearchMessagesInput } from '$lib/validation/search';
+
+// Number of tokens around the matches in a snippet
+const SNIPPET_TOKENS = 12;
+
+// Turn user input into an FTS5 query: every word must match, the last one as a prefix
+export function toFtsQuery(input: string): string {
+    const terms = input.split(/\s+/).filter(Boolean).map(term => `"${term.replace(/"/g, '""')}"`);
+    if (terms.length > 0) {
+        terms[terms.length - 1] += '*';
+    }
+    return terms.join(' ');
+}
+
+// Rooms whose history a user may search: the public room and the rooms they belong to
+export async function getSearchableRoomIds(userId: string): Promise<string[]> {
+    return [DEFAULT_CHAT_ROOM_ID, ...await getUserRoomIds(userId)];
+}
+
+// Search the messages of the given rooms, newest first
+export async function searchMessages(
+    roomIds: string[],
+    input: SearchMessagesInput
+): Promise<{ results: MessageSearchResult[]; hasMore: boolean }> {
+    const conditions: SQL[] = [
+        sql`${messagesFts} MATCH ${toFtsQuery(input.q)}`,
+        isNull(messages.deletedAt),
+        input.roomId ? eq(messages.chatRoomId, input.roomId) : inArray(messages.chatRoomId, roomIds)
+    ];
+    if (input.sender) {
+        conditions.push(sql`lower(${users.nickname}) = lower(${input.sender})`);
+    }
+    if (input.from !== undefined) {
+        conditions.push(gte(messages.timestamp, input.from));
+    }
+    if (input.to !== undefined) {
+        conditions.push(lte(messages.timestamp, input.to));
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await db.select({
+            message: messages,
+            senderNickname: users.nickname,
+            roomName: chatRooms.name,
+            snippet: sql<string>`snippet(${messagesFts}, 0, ${SEARCH_HIGHLIGHT_START}, ${SEARCH_HIGHLIGHT_END}, '…', ${SNIPPET_TOKENS})`
+        })
+        .from(messagesFts)
+        .innerJoin(messages, sql`${messages}.rowid = ${messagesFts.rowid}`)
+        .innerJoin(users, eq(users.id, messages.senderId))
+        .leftJoin(chatRooms, eq(chatRooms.id, messages.chatRoomId))
+        .where(and(...conditions))
+        .orderBy(desc(messages.timestamp), desc(messages.id))
+        .limit(input.limit + 1)
+        .offset(input.offset);
+
+    const hasMore = rows.length > input.limit;
+    const results = rows.slice(0, input.limit).map(row => ({
+        message: toMessage(row.message),
+        senderNickname: row.senderNickname,
+        roomName: row.roomName ?? undefined,
+        snippet: row.snippet
+    }));
+
+    return { results, hasMore };
+}
@@ -0,0 +1,11 @@
+/**
+ * Format the AIM-style typing indicator (e.g., "Marc est en train d'écrire…")
+ * @param nicknames - Nicknames of the users currently typing
+ * @returns The indicator text, or an empty string when nobody is typing
+ */
+export function formatTypingIndicator(nicknames: string[]): string {
+  if (nicknames.length === 0) return '';
+  if (nicknames.length === 1) return `${nicknames[0]} est en train d'écrire…`;
+  if (nicknames.length === 2) return `${nicknames[0]} et ${nicknames[1]} sont en train d'écrire…`;
+  return 'Plusieurs personnes sont en train d\'écrire…';
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+// Groups every buddy list starts with, shown even when empty
+export const DEFAULT_BUDDY_GROUPS = ['Amis', 'Collègues'];
+export const MAX_BUDDY_GROUP_NAME_LENGTH = 30;
+export const MAX_BUDDIES = 500;
+
+const groupNameSchema = z.string()
+  .trim()
+  .min(1, 'Group name is required')
+  .max(MAX_BUDDY_GROUP_NAME_LENGTH, `Group names must be at most ${MAX_BUDDY_GROUP_NAME_LENGTH} characters`);
+
+// Buddy request schema, the group defaults to the first default group
+export const addBuddySchema = z.object({
+  nickname: z.string().trim().min(1, 'Nickname is required'),
+  groupName: groupNameSchema.optional()
+});
+
+export type AddBuddyInput = z.infer<typeof addBuddySchema>;
+
+// Group of a buddy, when moving them or accepting their request
+export const buddyGroupSchema = z.object({
+  groupName: groupNameSchema
+});
+
+export type BuddyGroupInput = z.infer<typeof buddyGroupSchema>;
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_REPORT_REASON_LENGTH = 200;
+
+// Message edition schema
+export const editMessageSchema = z.object({
+  content: z.string()
+    .trim()
+    .min(1, 'Message content is required')
+    .max(MAX_MESSAGE_LENGTH, `Messages must be at most ${MAX_MESSAGE_LENGTH} characters`),
+  styleData: z.string().optional()
+});
+
+export type EditMessageInput = z.infer<typeof editMessageSchema>;
+
+// Message report schema
+export const reportMessageSchema = z.object({
+  reason: z.string()
+    .trim()
+    .min(1, 'A reason is required')
+    .max(MAX_REPORT_REASON_LENGTH, `Reasons must be at most ${MAX_REPORT_REASON_LENGTH} characters`)
+});
+
+export type ReportMessageInput = z.infer<typeof reportMessageSchema>;
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+
+export const MAX_SANCTION_REASON_LENGTH = 200;
+export const MAX_ANNOUNCEMENT_LENGTH = 500;
+// Longest timed sanction, longer ones must be permanent
+export const MAX_SANCTION_DURATION_MINUTES = 365 * 24 * 60;
+
+export const MAX_CONTENT_RULE_VALUE_LENGTH = 200;
+
+const CONTENT_RULE_KINDS = ['blockedWord', 'regex', 'maxLinks', 'blockedDomain', 'allowedDomain', 'repeatedChars', 'caps'] as const;
+const DOMAIN_PATTERN = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+const contentRuleActionSchema = z.enum(['reject', 'mask', 'flag'], { error: 'Invalid rule action' });
+
+function contentRuleValueError(kind: typeof CONTENT_RULE_KINDS[number], value: string): string | null {
+  switch (kind) {
+    case 'maxLinks':
+      return /^\d+$/.test(value) ? null : 'The link limit must be a number';
+    case 'repeatedChars':
+      return /^\d+$/.test(value) && parseInt(value, 10) >= 2 ? null : 'The repetition limit must be a number of at least 2';
+    case 'caps':
+      return /^\d+$/.test(value) && parseInt(value, 10) <= 100 ? null : 'The capital letters limit must be a percentage';
+    case 'blockedDomain':
+    case 'allowedDomain':
+      return DOMAIN_PATTERN.test(value) ? null : 'Invalid domain';
+    case 'regex':
+      try {
+        new RegExp(value, 'u');
+        return null;
+      } catch {
+        return 'Invalid regular expression';
+      }
+    default:
+      return null;
+  }
+}
+
+const reasonSchema = z.string()
+  .trim()
+  .max(MAX_SANCTION_REASON_LENGTH, `Reasons must be at most ${MAX_SANCTION_REASON_LENGTH} characters`)
+  .optional();
+
+const durationSchema = z.number()
+  .int()
+  .min(1, 'Duration must be at least one minute')
+  .max(MAX_SANCTION_DURATION_MINUTES, 'Duration is too long');
+
+// Timed mute of a user
+export const muteSchema = z.object({
+  userId: z.string().min(1, 'User is required'),
+  durationMinutes: durationSchema,
+  reason: reasonSchema
+});
+
+// Kick: close all the sessions of a user
+export const kickSchema = z.object({
+  userId: z.string().min(1, 'User is required'),
+  reason: reasonSchema
+});
+
+// Ban of a user or an IP address, permanent without duration
+export const banSchema = z.object({
+  userId: z.string().min(1).optional(),
+  ip: z.union([z.ipv4(), z.ipv6()], { error: 'Invalid IP address' }).optional(),
+  durationMinutes: durationSchema.optional(),
+  reason: reasonSchema
+}).refine(data => Boolean(data.userId) !== Boolean(data.ip), {
+  message: 'Either a user or an IP address is required'
+});
+
+// Role change, reserved to admins
+export const setRoleSchema = z.object({
+  userId: z.string().min(1, 'User is required'),
+  role: z.enum(['user', 'moderator', 'admin'], { error: 'Invalid role' })
+});
+
+// Announcement posted as a system message in every group room
+export const announcementSchema = z.object({
+  content: z.string()
+    .trim()
+    .min(1, 'Announcement content is required')
+    .max(MAX_ANNOUNCEMENT_LENGTH, `Announcements must be at most ${MAX_ANNOUNCEMENT_LENGTH} characters`)
+});
+
+// Content filter rule added by an admin. Numeric kinds take their limit as value.
+export const contentRuleSchema = z.object({
+  kind: z.enum(CONTENT_RULE_KINDS, { error: 'Invalid rule kind' }),
+  value: z.string()
+    .trim()
+    .min(1, 'Rule value is required')
+    .max(MAX_CONTENT_RULE_VALUE_LENGTH, `Rule values must be at most ${MAX_CONTENT_RULE_VALUE_LENGTH} characters`),
+  action: contentRuleActionSchema,
+  enabled: z.boolean().optional()
+}).superRefine((rule, ctx) => {
+  const error = contentRuleValueError(rule.kind, rule.value);
+  if (error) ctx.addIssue({ code: 'custom', message: error, path: ['value'] });
+});
+
+// Rules are toggled or change action; other changes mean a new rule
+export const contentRuleUpdateSchema = z.object({
+  action: contentRuleActionSchema.optional(),
+  enabled: z.boolean().optional()
+}).refine(data => data.action !== undefined || data.enabled !== undefined, {
+  message: 'Nothing to update'
+});
+
+export type MuteInput = z.infer<typeof muteSchema>;
+export type KickInput = z.infer<typeof kickSchema>;
+export type BanInput = z.infer<typeof banSchema>;
+export type SetRoleInput = z.infer<typeof setRoleSchema>;
+export type AnnouncementInput = z.infer<typeof announcementSchema>;
+export type ContentRuleInput = z.infer<typeof contentRuleSchema>;
+export type ContentRuleUpdateInput = z.infer<typeof contentRuleUpdateSchema>;
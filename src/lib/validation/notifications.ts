@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { MAX_BUDDIES } from './buddy';
+
+const buddyNotificationSchema = z.object({
+  sounds: z.boolean({ error: 'Invalid sounds flag' }),
+  notifications: z.boolean({ error: 'Invalid notifications flag' })
+});
+
+// Notification preferences schema: the whole preferences are saved at once
+export const notificationPreferencesSchema = z.object({
+  sounds: z.boolean({ error: 'Invalid sounds flag' }),
+  notifications: z.boolean({ error: 'Invalid notifications flag' }),
+  buddies: z.record(z.uuid({ error: 'Invalid buddy id' }), buddyNotificationSchema)
+    .refine(buddies => Object.keys(buddies).length <= MAX_BUDDIES, `At most ${MAX_BUDDIES} buddy settings are allowed`)
+    .default({})
+});
+
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>;
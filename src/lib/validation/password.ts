@@ -104,6 +104,32 @@ export function createRegistrationSchema(constraints: PasswordConstraints = DEFA
   );
 }
 
+// Password change validation schema, the current password is checked by the server
+export function createPasswordChangeSchema(constraints: PasswordConstraints = DEFAULT_PASSWORD_CONSTRAINTS) {
+  return z.object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: createPasswordSchema(constraints),
+    confirmPassword: z.string()
+  }).refine(
+    (data) => data.newPassword === data.confirmPassword,
+    {
+      message: 'Passwords do not match',
+      path: ['confirmPassword']
+    }
+  ).refine(
+    (data) => data.newPassword !== data.currentPassword,
+    {
+      message: 'The new password must be different from the current one',
+      path: ['newPassword']
+    }
+  );
+}
+
+// Account deletion is confirmed with the password
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, 'Password is required')
+});
+
 // Utility function to validate password strength and return detailed feedback
 export function validatePasswordStrength(password: string, constraints: PasswordConstraints = DEFAULT_PASSWORD_CONSTRAINTS) {
   const errors: string[] = [];
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+export const MAX_ROOM_NAME_LENGTH = 40;
+export const MAX_INITIAL_ROOM_MEMBERS = 50;
+
+// Group room creation schema
+export const createRoomSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Room name is required')
+    .max(MAX_ROOM_NAME_LENGTH, `Room name must be at most ${MAX_ROOM_NAME_LENGTH} characters`),
+  memberIds: z.array(z.string().min(1))
+    .max(MAX_INITIAL_ROOM_MEMBERS, `A room can be created with at most ${MAX_INITIAL_ROOM_MEMBERS} members`)
+    .optional()
+});
+
+export type CreateRoomInput = z.infer<typeof createRoomSchema>;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+export const MAX_SEARCH_QUERY_LENGTH = 100;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+// Message search query parameters
+export const searchMessagesSchema = z.object({
+  q: z.string()
+    .trim()
+    .min(MIN_SEARCH_QUERY_LENGTH, `Search terms must be at least ${MIN_SEARCH_QUERY_LENGTH} characters`)
+    .max(MAX_SEARCH_QUERY_LENGTH, `Search terms must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`),
+  roomId: z.string().min(1).optional(),
+  sender: z.string().trim().min(1).max(50).optional(),
+  from: z.coerce.number().int().nonnegative().optional(),
+  to: z.coerce.number().int().nonnegative().optional(),
+  offset: z.coerce.number().int().nonnegative().default(0),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).default(20)
+});
+
+export type SearchMessagesInput = z.infer<typeof searchMessagesSchema>;
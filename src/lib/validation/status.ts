@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+export const MAX_STATUS_MESSAGE_LENGTH = 100;
+export const MAX_AWAY_MESSAGE_LENGTH = 300;
+
+// Empty messages clear the stored value
+function optionalMessage(maxLength: number, label: string) {
+  return z.string()
+    .trim()
+    .max(maxLength, `${label} must be at most ${maxLength} characters`)
+    .transform(value => value || null)
+    .nullable()
+    .optional();
+}
+
+// Status update schema: omitted fields are left unchanged
+export const statusUpdateSchema = z.object({
+  status: z.enum(['online', 'away', 'busy', 'offline'], { error: 'Invalid status' }).optional(),
+  statusMessage: optionalMessage(MAX_STATUS_MESSAGE_LENGTH, 'Status message'),
+  awayMessage: optionalMessage(MAX_AWAY_MESSAGE_LENGTH, 'Away message')
+}).refine(
+  data => data.status !== undefined || data.statusMessage !== undefined || data.awayMessage !== undefined,
+  'Nothing to update'
+);
+
+export type StatusUpdateInput = z.infer<typeof statusUpdateSchema>;
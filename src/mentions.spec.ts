@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { extractMentionedNicknames, getMentionQuery, insertMention, MAX_MENTIONS_PER_MESSAGE } from '$lib/utils/mentions';
+
+describe('extractMentionedNicknames', () => {
+	it('returns distinct nicknames in order of appearance', () => {
+		expect(extractMentionedNicknames('@bob hi @alice_2, and @bob again')).toEqual(['bob', 'alice_2']);
+	});
+
+	it('ignores @ inside words such as email addresses', () => {
+		expect(extractMentionedNicknames('write to bob@example.com or (@carol)')).toEqual(['carol']);
+	});
+
+	it('stops at MAX_MENTIONS_PER_MESSAGE nicknames', () => {
+		const content = Array.from({ length: MAX_MENTIONS_PER_MESSAGE + 5 }, (_, i) => `@user${i}`).join(' ');
+		const nicknames = extractMentionedNicknames(content);
+		expect(nicknames).toHaveLength(MAX_MENTIONS_PER_MESSAGE);
+		expect(nicknames[0]).toBe('user0');
+	});
+});
+
+describe('getMentionQuery', () => {
+	it('returns the nickname typed right before the caret', () => {
+		expect(getMentionQuery('hello @al', 9)).toEqual({ query: 'al', start: 6 });
+		expect(getMentionQuery('@', 1)).toEqual({ query: '', start: 0 });
+	});
+
+	it('only looks at the text before the caret', () => {
+		expect(getMentionQuery('hi @alice there', 6)).toEqual({ query: 'al', start: 3 });
+	});
+
+	it('returns null when no mention is being typed', () => {
+		expect(getMentionQuery('hello @alice ', 13)).toBeNull();
+		expect(getMentionQuery('mail bob@ex', 11)).toBeNull();
+		expect(getMentionQuery('no mention', 10)).toBeNull();
+	});
+});
+
+describe('insertMention', () => {
+	it('replaces the typed part and places the caret after the mention', () => {
+		expect(insertMention('hi @al', 3, 6, 'alice')).toEqual({ text: 'hi @alice ', caret: 10 });
+	});
+
+	it('does not double the space before the following text', () => {
+		expect(insertMention('hi @al there', 3, 6, 'alice')).toEqual({ text: 'hi @alice there', caret: 10 });
+	});
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+import { decodeMessageCursor, encodeMessageCursor } from '$lib/utils/messages.server';
+
+// Cursors are plain strings, no query is run
+vi.mock('$lib/db/db.server', () => ({ default: {} }));
+
+describe('message cursors', () => {
+	it('round-trips a message position', () => {
+		const cursor = encodeMessageCursor({ timestamp: 1760000000000, id: 'b3d1c2a4-0000-4000-8000-000000000001' });
+		expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+		expect(decodeMessageCursor(cursor)).toEqual({ timestamp: 1760000000000, id: 'b3d1c2a4-0000-4000-8000-000000000001' });
+	});
+
+	it('stays URL-safe for non-ASCII ids', () => {
+		const cursor = encodeMessageCursor({ timestamp: 12, id: 'é?>' });
+		expect(cursor).toBe('MTI6w6k_Pg');
+		expect(decodeMessageCursor(cursor)).toEqual({ timestamp: 12, id: 'é?>' });
+	});
+
+	it('keeps ids that contain the separator', () => {
+		const cursor = encodeMessageCursor({ timestamp: 5, id: 'a:b' });
+		expect(decodeMessageCursor(cursor)).toEqual({ timestamp: 5, id: 'a:b' });
+	});
+
+	it('accepts a bare timestamp for the legacy before parameter', () => {
+		expect(decodeMessageCursor('1760000000000')).toEqual({ timestamp: 1760000000000, id: '' });
+	});
+
+	it('rejects cursors it did not produce', () => {
+		expect(decodeMessageCursor('not a cursor')).toBeNull();
+		expect(decodeMessageCursor(btoa(':id'))).toBeNull();
+		expect(decodeMessageCursor(btoa('abc:id'))).toBeNull();
+	});
+});
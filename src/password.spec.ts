@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_HASH_PARAMS, hashPassword, needsRehash, verifyPassword } from '$lib/utils/password';
+
+const SALT_HEX = '000102030405060708090a0b0c0d0e0f';
+
+// Derive a hash the way older versions of the module did, with the given iteration count
+async function deriveHex(password: string, iterations: number): Promise<string> {
+	const salt = new Uint8Array(SALT_HEX.match(/../g)!.map(byte => parseInt(byte, 16)));
+	const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), { name: 'PBKDF2' }, false, ['deriveBits']);
+	const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-512' }, key, 512);
+	return Array.from(new Uint8Array(bits)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('password hashes', () => {
+	it('stores the current parameters in new hashes', async () => {
+		const hash = await hashPassword('correct horse');
+		const { algorithm, iterations, saltLength } = CURRENT_HASH_PARAMS;
+		expect(hash).toMatch(new RegExp(`^\\$${algorithm}\\$i=${iterations},s=${saltLength}\\$[0-9a-f]{${saltLength * 2}}\\$[0-9a-f]{128}$`));
+		expect(await verifyPassword('correct horse', hash)).toBe(true);
+		expect(await verifyPassword('wrong horse', hash)).toBe(false);
+		expect(needsRehash(hash)).toBe(false);
+	});
+
+	it('verifies legacy salt:hash passwords and asks for a rehash', async () => {
+		const legacy = `${SALT_HEX}:${await deriveHex('old secret', 100000)}`;
+		expect(await verifyPassword('old secret', legacy)).toBe(true);
+		expect(await verifyPassword('new secret', legacy)).toBe(false);
+		expect(needsRehash(legacy)).toBe(true);
+	});
+
+	it('verifies hashes with fewer iterations and asks for a rehash', async () => {
+		const weaker = `$pbkdf2-sha512$i=1000,s=16$${SALT_HEX}$${await deriveHex('secret', 1000)}`;
+		expect(await verifyPassword('secret', weaker)).toBe(true);
+		expect(needsRehash(weaker)).toBe(true);
+	});
+
+	it('rejects strings it did not produce', async () => {
+		for (const stored of ['', 'plaintext', '$bcrypt$i=10,s=16$00$00', '$pbkdf2-sha512$i=0,s=16$00$00', '$pbkdf2-sha512$i=10,s=16$0$00']) {
+			expect(await verifyPassword('plaintext', stored)).toBe(false);
+			expect(needsRehash(stored)).toBe(false);
+		}
+	});
+});
@@ -0,0 +1,54 @@
+import type { AccountResponse } from '$lib/types/payloads';
+import { deleteSessionTokenCookie } from '$lib/api/session.cookie';
+import { deleteAccount } from '$lib/utils/account.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { verifyPassword } from '$lib/utils/password';
+import { deleteAccountSchema } from '$lib/validation/password';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('account-server');
+
+function jsonResponse(body: AccountResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// DELETE endpoint: delete the current user, confirmed with their password.
+// Messages stay, attributed to the "compte supprimé" placeholder.
+export const DELETE: RequestHandler = async ({ request, locals, cookies }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = deleteAccountSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid request' }, 400);
+    }
+
+    const maskedUserId = `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`;
+    try {
+        const isValid = await verifyPassword(parsed.data.password.trim(), locals.user.password);
+        if (!isValid) {
+            log.warn('Account deletion refused - invalid password', { userId: maskedUserId });
+            return jsonResponse({ success: false, error: 'Password is incorrect' }, 403);
+        }
+
+        await deleteAccount(locals.user.id);
+        deleteSessionTokenCookie({ cookies });
+
+        return jsonResponse({ success: true });
+    } catch (error) {
+        log.error('Error deleting account', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to delete account' }, 500);
+    }
+};
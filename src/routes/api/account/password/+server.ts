@@ -0,0 +1,59 @@
+import db from '$lib/db/db.server';
+import { users } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { AccountResponse } from '$lib/types/payloads';
+import { invalidateOtherSessions } from '$lib/api/session.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { hashPassword, verifyPassword } from '$lib/utils/password';
+import { createPasswordChangeSchema, DEFAULT_PASSWORD_CONSTRAINTS } from '$lib/validation/password';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('account-password-server');
+
+function jsonResponse(body: AccountResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// POST endpoint: change the password of the current user and close their other sessions
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user || !locals.session) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = createPasswordChangeSchema(DEFAULT_PASSWORD_CONSTRAINTS).safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid password' }, 400);
+    }
+
+    const maskedUserId = `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`;
+    try {
+        // Passwords are trimmed like at registration and login
+        const isValid = await verifyPassword(parsed.data.currentPassword.trim(), locals.user.password);
+        if (!isValid) {
+            log.warn('Password change refused - invalid current password', { userId: maskedUserId });
+            return jsonResponse({ success: false, error: 'Current password is incorrect' }, 403);
+        }
+
+        await db.update(users)
+            .set({ password: await hashPassword(parsed.data.newPassword.trim()) })
+            .where(eq(users.id, locals.user.id));
+        const revoked = await invalidateOtherSessions(locals.user.id, locals.session.id);
+        log.info('Password changed', { userId: maskedUserId, revokedSessions: revoked });
+
+        return jsonResponse({ success: true });
+    } catch (error) {
+        log.error('Error changing password', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to change password' }, 500);
+    }
+};
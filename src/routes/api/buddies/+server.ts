@@ -0,0 +1,79 @@
+import db from '$lib/db/db.server';
+import { users } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { BuddyListResponse } from '$lib/types/payloads';
+import { DELETED_ACCOUNT_ID } from '$lib/utils/account.server';
+import { addBuddy, getBuddyList, pushBuddyLists } from '$lib/utils/buddies.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { addBuddySchema } from '$lib/validation/buddy';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('buddies-server');
+
+function jsonResponse(body: BuddyListResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// GET endpoint: the current user's buddy list, requests and blocked users
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    try {
+        return jsonResponse({ success: true, buddyList: await getBuddyList(locals.user.id) });
+    } catch (error) {
+        log.error('Error loading buddy list', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to load buddy list' }, 500);
+    }
+};
+
+// POST endpoint: send a buddy request by nickname, accepted right away if the user already sent one
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = addBuddySchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid request' }, 400);
+    }
+
+    try {
+        const buddy = await db.select({ id: users.id })
+            .from(users)
+            .where(eq(users.nickname, parsed.data.nickname))
+            .get();
+        if (!buddy || buddy.id === DELETED_ACCOUNT_ID) {
+            return jsonResponse({ success: false, error: 'User not found' }, 404);
+        }
+        if (buddy.id === locals.user.id) {
+            return jsonResponse({ success: false, error: 'You cannot add yourself' }, 400);
+        }
+
+        const result = await addBuddy(locals.user.id, buddy.id, parsed.data.groupName);
+        if (result === 'exists') {
+            return jsonResponse({ success: false, error: 'This user is already in your buddy list' }, 409);
+        }
+        if (result === 'limitReached') {
+            return jsonResponse({ success: false, error: 'Your buddy list is full' }, 400);
+        }
+
+        const lists = await pushBuddyLists([locals.user.id, buddy.id]);
+        return jsonResponse({ success: true, buddyList: lists.get(locals.user.id)!, result }, 201);
+    } catch (error) {
+        log.error('Error adding buddy', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to add buddy' }, 500);
+    }
+};
@@ -0,0 +1,65 @@
+import type { BuddyListResponse } from '$lib/types/payloads';
+import { moveBuddy, pushBuddyLists, removeBuddy } from '$lib/utils/buddies.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { buddyGroupSchema } from '$lib/validation/buddy';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('buddy-server');
+
+function jsonResponse(body: BuddyListResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// PATCH endpoint: move a buddy to another group, created if it does not exist yet
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = buddyGroupSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid group' }, 400);
+    }
+
+    try {
+        if (!await moveBuddy(locals.user.id, params.userId, parsed.data.groupName)) {
+            return jsonResponse({ success: false, error: 'Buddy not found' }, 404);
+        }
+
+        const lists = await pushBuddyLists([locals.user.id]);
+        return jsonResponse({ success: true, buddyList: lists.get(locals.user.id)! });
+    } catch (error) {
+        log.error('Error moving buddy', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to move buddy' }, 500);
+    }
+};
+
+// DELETE endpoint: remove a buddy from both lists, cancel or decline a request, or unblock a user
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    try {
+        if (!await removeBuddy(locals.user.id, params.userId)) {
+            return jsonResponse({ success: false, error: 'Buddy not found' }, 404);
+        }
+
+        const lists = await pushBuddyLists([locals.user.id, params.userId]);
+        return jsonResponse({ success: true, buddyList: lists.get(locals.user.id)! });
+    } catch (error) {
+        log.error('Error removing buddy', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to remove buddy' }, 500);
+    }
+};
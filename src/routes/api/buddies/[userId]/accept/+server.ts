@@ -0,0 +1,48 @@
+import type { BuddyListResponse } from '$lib/types/payloads';
+import { acceptBuddy, pushBuddyLists } from '$lib/utils/buddies.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { buddyGroupSchema } from '$lib/validation/buddy';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('buddy-accept-server');
+
+function jsonResponse(body: BuddyListResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// POST endpoint: accept a buddy request, optionally into a given group
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    // The body is optional
+    let body: unknown = {};
+    try {
+        const text = await request.text();
+        if (text) body = JSON.parse(text);
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = buddyGroupSchema.partial().safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid group' }, 400);
+    }
+
+    try {
+        if (!await acceptBuddy(locals.user.id, params.userId, parsed.data.groupName)) {
+            return jsonResponse({ success: false, error: 'Buddy request not found' }, 404);
+        }
+
+        const lists = await pushBuddyLists([locals.user.id, params.userId]);
+        return jsonResponse({ success: true, buddyList: lists.get(locals.user.id)!, result: 'accepted' });
+    } catch (error) {
+        log.error('Error accepting buddy request', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to accept buddy request' }, 500);
+    }
+};
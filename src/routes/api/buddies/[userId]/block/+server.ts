@@ -0,0 +1,44 @@
+import db from '$lib/db/db.server';
+import { users } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { BuddyListResponse } from '$lib/types/payloads';
+import { blockUser, pushBuddyLists } from '$lib/utils/buddies.server';
+import { createLogger } from '$lib/utils/logger.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('buddy-block-server');
+
+function jsonResponse(body: BuddyListResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// POST endpoint: block a user, who is removed from the list and can no longer send requests or instant messages
+export const POST: RequestHandler = async ({ params, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (params.userId === locals.user.id) {
+        return jsonResponse({ success: false, error: 'You cannot block yourself' }, 400);
+    }
+
+    try {
+        const target = await db.select({ id: users.id })
+            .from(users)
+            .where(eq(users.id, params.userId))
+            .get();
+        if (!target) {
+            return jsonResponse({ success: false, error: 'User not found' }, 404);
+        }
+
+        await blockUser(locals.user.id, target.id);
+
+        const lists = await pushBuddyLists([locals.user.id, target.id]);
+        return jsonResponse({ success: true, buddyList: lists.get(locals.user.id)! });
+    } catch (error) {
+        log.error('Error blocking user', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to block user' }, 500);
+    }
+};
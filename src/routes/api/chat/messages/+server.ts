@@ -7,13 +7,18 @@ import type {
     SendMessageResponse, 
     GetMessagesResponse 
 } from '$lib/types/payloads';
-import { and, desc, eq, lt } from 'drizzle-orm/sql';
-import type { SQL } from 'drizzle-orm/sql';
-import { error } from '@sveltejs/kit';
-import { sseEmitter } from '$lib/sseEmitter';
+import { eq } from 'drizzle-orm/sql';
+import { error, isHttpError } from '@sveltejs/kit';
 import { chatRooms } from '$lib/db/schema';
 import { users } from '$lib/db/schema';
 import { DEFAULT_CHAT_ROOM_ID } from '$lib/utils/chat.server';
+import { getMessagePage, type MessagePageAnchor } from '$lib/utils/messages.server';
+import { emitRoomEvent, getRoomMemberIds, isPublicRoom, isRoomMember } from '$lib/utils/rooms.server';
+import { isBlockedBy } from '$lib/utils/buddies.server';
+import { getActiveMute } from '$lib/utils/moderation.server';
+import { applyContentFilter, flagMessage } from '$lib/utils/content-filter.server';
+import { sendAwayReply } from '$lib/utils/presence.server';
+import { notifyMentions, resolveMentions } from '$lib/utils/mentions.server';
 import { createLogger } from '$lib/utils/logger.server';
 import { sanitizeStyleData } from '$lib/validation/text-formatting';
 
@@ -51,50 +56,71 @@ function updateUserCooldown(userId: string): { canSend: boolean; retryAfter?: nu
     return { canSend: true };
 }
 
-// GET endpoint: fetch messages directly from DB
+// GET endpoint: fetch a page of messages directly from DB.
+// Without anchor the latest messages are returned; `before`/`after` take the cursors of a previous
+// response and `around` centers the page on a message id.
 export async function GET({ request, locals }) {
     const url = new URL(request.url);
-    const beforeTimestamp = url.searchParams.get('before');
+    const before = url.searchParams.get('before');
+    const after = url.searchParams.get('after');
+    const around = url.searchParams.get('around');
     const roomId = url.searchParams.get('roomId') || DEFAULT_CHAT_ROOM_ID;
     const isPublic = url.searchParams.get('public') === 'true';
 
     try {
         log.debug('Fetching messages from database', { 
-            beforeTimestamp, 
+            before, 
+            after,
+            around,
             roomId, 
             isAuthenticated: !!locals.session,
             isPublic
         });
 
-        let conditions = eq(messages.chatRoomId, roomId) as SQL<unknown>;
-        
-        if (beforeTimestamp) {
-            conditions = and(
-                conditions,
-                lt(messages.timestamp, parseInt(beforeTimestamp))
-            ) as SQL<unknown>;
+        if ([before, after, around].filter(Boolean).length > 1) {
+            throw error(400, 'Only one of before, after and around can be used');
+        }
+
+        // Only the default room is readable without being a member
+        if (!isPublicRoom(roomId)) {
+            if (isPublic || !locals.user) {
+                log.warn('Public access to a private room refused', { roomId });
+                throw error(403, 'This room is not public');
+            }
+            if (!await isRoomMember(roomId, locals.user.id)) {
+                log.warn('Non-member attempted to read room messages', {
+                    roomId,
+                    userId: `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`
+                });
+                throw error(403, 'Not a member of this room');
+            }
         }
 
+        const anchor: MessagePageAnchor = before ? { mode: 'before', cursor: before }
+            : after ? { mode: 'after', cursor: after }
+            : around ? { mode: 'around', messageId: around }
+            : { mode: 'latest' };
+
         // Fetch messages with a limit based on authentication status
         // Public requests are limited to 50 messages
         // Authenticated users get 100 messages per request
         const fetchLimit = (isPublic || !locals.session) ? 50 : 100;
 
-        const fetchedMessages = await db.select()
-            .from(messages)
-            .where(conditions)
-            .orderBy(desc(messages.timestamp))
-            .limit(fetchLimit)
-            .then(rows => rows.map(row => ({
-                ...row,
-                styleData: row.styleData ?? undefined,
-                hasFormatting: row.hasFormatting ?? false
-            })));
+        // Messages reported too many times are hidden from logged-out visitors
+        const page = await getMessagePage(roomId, anchor, fetchLimit, { hideReported: isPublic || !locals.user });
+        if (!page) {
+            log.warn('Invalid message page anchor', { mode: anchor.mode, roomId });
+            throw error(anchor.mode === 'around' ? 404 : 400, anchor.mode === 'around' ? 'Message not found' : 'Invalid cursor');
+        }
 
         const response: GetMessagesResponse = {
             success: true,
-            messages: fetchedMessages,
-            hasMore: fetchedMessages.length === fetchLimit // Indicate if there might be more messages
+            messages: page.messages,
+            hasMore: page.hasMoreBefore,
+            hasMoreBefore: page.hasMoreBefore,
+            hasMoreAfter: page.hasMoreAfter,
+            beforeCursor: page.beforeCursor,
+            afterCursor: page.afterCursor
         };
 
         return new Response(JSON.stringify(response), {
@@ -103,6 +129,7 @@ export async function GET({ request, locals }) {
             }
         });
     } catch (err) {
+        if (isHttpError(err)) throw err;
         log.error('Error fetching messages:', { error: err });
         throw error(500, 'Failed to fetch messages');
     }
@@ -147,6 +174,16 @@ export async function POST({ request, locals }: { request: Request, locals: App.
             return new Response(JSON.stringify(errorResponse), { status: 400 });
         }
 
+        // System messages are only posted by the server
+        if (data.type && data.type !== 'chat' && data.type !== 'emote') {
+            log.warn('Invalid message type received', { type: data.type });
+            const errorResponse: SendMessageResponse = {
+                success: false,
+                error: 'Invalid message type'
+            };
+            return new Response(JSON.stringify(errorResponse), { status: 400 });
+        }
+
         if (data.userId !== locals.user.id) {
             log.warn('Unauthorized message attempt', {
                 requestedUserId: data.userId,
@@ -155,6 +192,24 @@ export async function POST({ request, locals }: { request: Request, locals: App.
             throw error(403, 'Cannot post messages as another user');
         }
 
+        const mute = await getActiveMute(locals.user.id);
+        if (mute) {
+            log.debug('Message rejected: sender is muted', {
+                userId: `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`,
+                sanctionId: mute.id
+            });
+            const errorResponse: SendMessageResponse = {
+                success: false,
+                error: 'You have been muted by a moderator',
+                isMuted: true,
+                mutedUntil: mute.expiresAt ?? undefined
+            };
+            return new Response(JSON.stringify(errorResponse), {
+                status: 403,
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
         const chatRoomId = data.chatRoomId || DEFAULT_CHAT_ROOM_ID;
         
         // Check chat room existence
@@ -172,6 +227,32 @@ export async function POST({ request, locals }: { request: Request, locals: App.
             return new Response(JSON.stringify(errorResponse), { status: 404 });
         }
 
+        // Only members can post in a room
+        if (!await isRoomMember(chatRoomId, data.userId)) {
+            log.warn('Message rejected: sender is not a room member', {
+                chatRoomId,
+                userId: `${data.userId.slice(0, 4)}...${data.userId.slice(-4)}`
+            });
+            const errorResponse: SendMessageResponse = {
+                success: false,
+                error: 'Not a member of this room'
+            };
+            return new Response(JSON.stringify(errorResponse), { status: 403 });
+        }
+
+        // Users cannot send instant messages to someone who blocked them
+        if (chatRoom.type === 'direct') {
+            const recipientId = (await getRoomMemberIds(chatRoomId)).find(id => id !== data.userId);
+            if (recipientId && await isBlockedBy(recipientId, data.userId)) {
+                log.debug('Message rejected: sender is blocked by the recipient', { chatRoomId });
+                const errorResponse: SendMessageResponse = {
+                    success: false,
+                    error: 'This user does not accept your messages'
+                };
+                return new Response(JSON.stringify(errorResponse), { status: 403 });
+            }
+        }
+
         // Check user existence
         const user = await db.select()
             .from(users)
@@ -188,17 +269,37 @@ export async function POST({ request, locals }: { request: Request, locals: App.
             return new Response(JSON.stringify(errorResponse), { status: 404 });
         }
 
+        // Content policy: rejected messages are not saved, masked parts are replaced, flagged ones go to moderators
+        const filtered = await applyContentFilter(data.content);
+        if (filtered.rejectedBy) {
+            log.info('Message rejected by the content filter', {
+                userId: `${data.userId.slice(0, 4)}...${data.userId.slice(-4)}`,
+                ruleId: filtered.rejectedBy.id
+            });
+            const errorResponse: SendMessageResponse = {
+                success: false,
+                error: 'Your message was blocked by the content filter',
+                isFiltered: true
+            };
+            return new Response(JSON.stringify(errorResponse), {
+                status: 422,
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
         const validatedStyleData = sanitizeStyleData(data.styleData);
+        const mentions = await resolveMentions(chatRoom, data.userId, filtered.content);
         
         const newMessage: Message = {
             id: uuidv4(),
             chatRoomId,
             senderId: data.userId,
-            content: data.content,
+            content: filtered.content,
             type: data.type || 'chat',
             timestamp: Date.now(),
             styleData: validatedStyleData ? JSON.stringify(validatedStyleData) : undefined,
-            hasFormatting: Boolean(validatedStyleData)
+            hasFormatting: Boolean(validatedStyleData),
+            mentions: mentions.length > 0 ? mentions : undefined
         };
 
 
@@ -209,8 +310,19 @@ export async function POST({ request, locals }: { request: Request, locals: App.
         await db.insert(messages).values(newMessage);
         log.debug('Message saved in DB', { messageId: newMessage.id, chatRoomId: newMessage.chatRoomId, type: newMessage.type, timestamp: newMessage.timestamp });
 
-        // Broadcast the new message via SSE
-        sseEmitter.emit('sse', { type: 'chatMessage', data: newMessage });
+        emitRoomEvent(chatRoomId, { type: 'chatMessage', data: newMessage });
+        notifyMentions(newMessage, mentions, user.nickname, chatRoom.name);
+
+        if (filtered.flaggedBy.length > 0) {
+            await flagMessage(newMessage, filtered.flaggedBy);
+        }
+
+        // The message is already delivered, a failed away reply must not fail it
+        try {
+            await sendAwayReply(chatRoom, data.userId);
+        } catch (error) {
+            log.error('Error sending away message', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
 
         log.debug('Message processed successfully', { messageId: newMessage.id, userId: `${newMessage.senderId.slice(0, 4)}...${newMessage.senderId.slice(-4)}`, roomId: newMessage.chatRoomId });
 
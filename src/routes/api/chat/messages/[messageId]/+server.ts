@@ -0,0 +1,208 @@
+import db from '$lib/db/db.server';
+import { messageRevisions, messages } from '$lib/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { MESSAGE_EDIT_WINDOW_MS, type Message } from '$lib/types/chat';
+import type {
+    DeleteMessageResponse,
+    EditMessageResponse,
+    MessageHistoryResponse
+} from '$lib/types/payloads';
+import { toMessage } from '$lib/utils/chat.server';
+import { applyContentFilter, flagMessage } from '$lib/utils/content-filter.server';
+import { tombstoneMessage } from '$lib/utils/messages.server';
+import { getActiveMute } from '$lib/utils/moderation.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { notifyMentions, resolveMentions } from '$lib/utils/mentions.server';
+import { emitRoomEvent, getRoom, isRoomMember } from '$lib/utils/rooms.server';
+import { editMessageSchema } from '$lib/validation/message';
+import { sanitizeStyleData } from '$lib/validation/text-formatting';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('chat-message-server');
+
+function jsonResponse(body: EditMessageResponse | DeleteMessageResponse | MessageHistoryResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// Fetch a message its sender may still change, or the error response explaining why not
+async function getEditableMessage(messageId: string, userId: string): Promise<{ message: Message } | { response: Response }> {
+    const row = await db.select()
+        .from(messages)
+        .where(eq(messages.id, messageId))
+        .get();
+
+    if (!row) {
+        return { response: jsonResponse({ success: false, error: 'Message not found' }, 404) };
+    }
+
+    const maskedUserId = `${userId.slice(0, 4)}...${userId.slice(-4)}`;
+    if (row.senderId !== userId) {
+        log.warn('Attempt to change another user\'s message', { messageId, userId: maskedUserId });
+        return { response: jsonResponse({ success: false, error: 'Only the sender can change this message' }, 403) };
+    }
+
+    if (row.type === 'system' || row.type === 'autoReply') {
+        return { response: jsonResponse({ success: false, error: 'Automatic messages cannot be changed' }, 403) };
+    }
+
+    if (row.deletedAt) {
+        return { response: jsonResponse({ success: false, error: 'Message already deleted' }, 410) };
+    }
+
+    if (Date.now() - row.timestamp > MESSAGE_EDIT_WINDOW_MS) {
+        log.debug('Message edit window expired', { messageId, userId: maskedUserId });
+        return { response: jsonResponse({ success: false, error: 'This message can no longer be changed' }, 403) };
+    }
+
+    return { message: toMessage(row) };
+}
+
+// GET endpoint: a message with its previous versions, for the members of its room
+export const GET: RequestHandler = async ({ params, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    try {
+        const row = await db.select()
+            .from(messages)
+            .where(eq(messages.id, params.messageId))
+            .get();
+
+        if (!row || !await isRoomMember(row.chatRoomId, locals.user.id)) {
+            return jsonResponse({ success: false, error: 'Message not found' }, 404);
+        }
+
+        // A retracted message's content stays visible to its sender only
+        const revisions = row.deletedAt && row.senderId !== locals.user.id
+            ? []
+            : await db.select()
+                .from(messageRevisions)
+                .where(eq(messageRevisions.messageId, row.id))
+                .orderBy(asc(messageRevisions.createdAt));
+
+        return jsonResponse({
+            success: true,
+            message: toMessage(row),
+            revisions: revisions.map(revision => ({ ...revision, styleData: revision.styleData ?? undefined }))
+        });
+    } catch (error) {
+        log.error('Error fetching message history', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to fetch message history' }, 500);
+    }
+};
+
+// PATCH endpoint: edit a message, keeping the previous version as a revision
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = editMessageSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid message' }, 400);
+    }
+
+    try {
+        const result = await getEditableMessage(params.messageId, locals.user.id);
+        if ('response' in result) return result.response;
+        const { message } = result;
+
+        // Muted users cannot change what the room sees, edits included
+        const mute = await getActiveMute(locals.user.id);
+        if (mute) {
+            log.debug('Message edit rejected: sender is muted', { messageId: message.id, sanctionId: mute.id });
+            return jsonResponse({
+                success: false,
+                error: 'You have been muted by a moderator',
+                isMuted: true,
+                mutedUntil: mute.expiresAt ?? undefined
+            }, 403);
+        }
+
+        // Edits go through the same content policy as new messages
+        const filtered = await applyContentFilter(parsed.data.content);
+        if (filtered.rejectedBy) {
+            log.info('Message edit rejected by the content filter', { messageId: message.id, ruleId: filtered.rejectedBy.id });
+            return jsonResponse({ success: false, error: 'Your message was blocked by the content filter' }, 422);
+        }
+
+        // Keep the current style unless a new one is provided
+        const styleData = parsed.data.styleData !== undefined
+            ? sanitizeStyleData(parsed.data.styleData)
+            : sanitizeStyleData(message.styleData);
+        const room = await getRoom(message.chatRoomId);
+        const mentions = room ? await resolveMentions(room, message.senderId, filtered.content) : [];
+        const now = Date.now();
+
+        const updated = await db.transaction(async (tx) => {
+            await tx.insert(messageRevisions).values({
+                messageId: message.id,
+                content: message.content,
+                styleData: message.styleData ?? null,
+                createdAt: now
+            });
+
+            return tx.update(messages)
+                .set({
+                    content: filtered.content,
+                    styleData: styleData ? JSON.stringify(styleData) : null,
+                    hasFormatting: Boolean(styleData),
+                    mentions: mentions.length > 0 ? mentions : null,
+                    editedAt: now
+                })
+                .where(eq(messages.id, message.id))
+                .returning()
+                .get();
+        });
+
+        const editedMessage = toMessage(updated);
+        emitRoomEvent(editedMessage.chatRoomId, { type: 'messageEdited', data: editedMessage });
+        log.debug('Message edited', { messageId: editedMessage.id, chatRoomId: editedMessage.chatRoomId });
+
+        // Users already mentioned were told when the message was sent
+        const newlyMentioned = mentions.filter(id => !message.mentions?.includes(id));
+        notifyMentions(editedMessage, newlyMentioned, locals.user.nickname, room?.name);
+
+        if (filtered.flaggedBy.length > 0) {
+            await flagMessage(editedMessage, filtered.flaggedBy);
+        }
+
+        return jsonResponse({ success: true, message: editedMessage });
+    } catch (error) {
+        log.error('Error editing message', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to edit message' }, 500);
+    }
+};
+
+// DELETE endpoint: replace a message with a tombstone, keeping its content as a revision
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    try {
+        const result = await getEditableMessage(params.messageId, locals.user.id);
+        if ('response' in result) return result.response;
+        const { message } = result;
+
+        await tombstoneMessage(message);
+        log.debug('Message deleted', { messageId: message.id, chatRoomId: message.chatRoomId });
+
+        return jsonResponse({ success: true });
+    } catch (error) {
+        log.error('Error deleting message', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to delete message' }, 500);
+    }
+};
@@ -0,0 +1,78 @@
+import db from '$lib/db/db.server';
+import { messages } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { ReportCreatedEvent } from '$lib/types/chat';
+import type { ReportMessageResponse } from '$lib/types/payloads';
+import { toMessage } from '$lib/utils/chat.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { notifyModerators } from '$lib/utils/moderation.server';
+import { createReport } from '$lib/utils/reports.server';
+import { isRoomMember } from '$lib/utils/rooms.server';
+import { reportMessageSchema } from '$lib/validation/message';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('chat-report-server');
+
+function jsonResponse(body: ReportMessageResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// POST endpoint: report a message to the moderators
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = reportMessageSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid report' }, 400);
+    }
+
+    try {
+        const row = await db.select()
+            .from(messages)
+            .where(eq(messages.id, params.messageId))
+            .get();
+
+        if (!row || !await isRoomMember(row.chatRoomId, locals.user.id)) {
+            return jsonResponse({ success: false, error: 'Message not found' }, 404);
+        }
+        if (row.senderId === locals.user.id) {
+            return jsonResponse({ success: false, error: 'You cannot report your own message' }, 400);
+        }
+        if (row.type === 'system' || row.deletedAt) {
+            return jsonResponse({ success: false, error: 'This message cannot be reported' }, 400);
+        }
+
+        const created = await createReport(toMessage(row), locals.user.id, parsed.data.reason);
+        if (!created) {
+            return jsonResponse({ success: false, error: 'You already reported this message' }, 409);
+        }
+
+        const reportEvent: ReportCreatedEvent = {
+            messageId: row.id,
+            chatRoomId: row.chatRoomId,
+            reporterNickname: locals.user.nickname,
+            reason: parsed.data.reason,
+            reportCount: created.reportCount
+        };
+        await notifyModerators({ type: 'reportCreated', data: reportEvent });
+        log.info('Message reported', { messageId: row.id, reportCount: created.reportCount });
+
+        return jsonResponse({ success: true }, 201);
+    } catch (error) {
+        log.error('Error reporting message', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to report message' }, 500);
+    }
+};
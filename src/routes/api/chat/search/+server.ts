@@ -0,0 +1,49 @@
+import type { SearchMessagesResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import { getSearchableRoomIds, searchMessages } from '$lib/utils/search.server';
+import { searchMessagesSchema } from '$lib/validation/search';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('chat-search-server');
+
+function jsonResponse(body: SearchMessagesResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// GET endpoint: full-text search over the history of the rooms the user can read
+export const GET: RequestHandler = async ({ url, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    // Empty parameters are treated as absent filters
+    const params = Object.fromEntries([...url.searchParams].filter(([, value]) => value !== ''));
+    const parsed = searchMessagesSchema.safeParse(params);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid search' }, 400);
+    }
+
+    try {
+        const roomIds = await getSearchableRoomIds(locals.user.id);
+        if (parsed.data.roomId && !roomIds.includes(parsed.data.roomId)) {
+            log.warn('Search in a room the user does not belong to', { roomId: parsed.data.roomId });
+            return jsonResponse({ success: false, error: 'Not a member of this room' }, 403);
+        }
+
+        const { results, hasMore } = await searchMessages(roomIds, parsed.data);
+        log.debug('Search completed', { results: results.length, hasMore, offset: parsed.data.offset });
+
+        return jsonResponse({
+            success: true,
+            results,
+            hasMore,
+            nextOffset: hasMore ? parsed.data.offset + results.length : undefined
+        });
+    } catch (error) {
+        log.error('Error searching messages', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Search failed' }, 500);
+    }
+};
@@ -0,0 +1,88 @@
+import type { TypingEvent } from '$lib/types/chat';
+import type { TypingRequest, TypingResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import { emitRoomEvent, isRoomMember } from '$lib/utils/rooms.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('chat-typing-server');
+
+// Indicators disappear on their own if the client stops refreshing them
+const TYPING_EXPIRY_MS = 6000;
+// Ignore "still typing" notifications sent more often than this
+const TYPING_THROTTLE_MS = 2000;
+const lastTypingEvents = new Map<string, number>();
+
+// Entries past the throttle window no longer throttle anything, drop them so the map stays small
+function pruneTypingEvents(now: number) {
+    for (const [key, timestamp] of lastTypingEvents) {
+        if (now - timestamp >= TYPING_THROTTLE_MS) {
+            lastTypingEvents.delete(key);
+        }
+    }
+}
+
+function jsonResponse(body: TypingResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// POST endpoint: tell the other members of a room that the user started or stopped typing
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    let body: TypingRequest;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    if (typeof body.roomId !== 'string' || !body.roomId || typeof body.isTyping !== 'boolean') {
+        return jsonResponse({ success: false, error: 'Invalid typing payload' }, 400);
+    }
+
+    const userId = locals.user.id;
+    const throttleKey = `${userId}:${body.roomId}`;
+    const now = Date.now();
+
+    if (body.isTyping) {
+        const lastEvent = lastTypingEvents.get(throttleKey) ?? 0;
+        if (now - lastEvent < TYPING_THROTTLE_MS) {
+            return jsonResponse({ success: true });
+        }
+    }
+
+    try {
+        if (!await isRoomMember(body.roomId, userId)) {
+            log.warn('Typing event rejected: not a room member', { roomId: body.roomId });
+            return jsonResponse({ success: false, error: 'Not a member of this room' }, 403);
+        }
+
+        pruneTypingEvents(now);
+        if (body.isTyping) {
+            lastTypingEvents.set(throttleKey, now);
+        } else {
+            lastTypingEvents.delete(throttleKey);
+        }
+
+        const typingEvent: TypingEvent = {
+            roomId: body.roomId,
+            userId,
+            nickname: locals.user.nickname,
+            isTyping: body.isTyping,
+            expiresIn: TYPING_EXPIRY_MS
+        };
+
+        emitRoomEvent(body.roomId, { type: 'typing', data: typingEvent });
+
+        return jsonResponse({ success: true });
+    } catch (error) {
+        log.error('Error sending typing event', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to send typing event' }, 500);
+    }
+};
@@ -0,0 +1,62 @@
+import db from '$lib/db/db.server';
+import { chatRooms } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { ModerationResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import { hasRole, logModerationAction, postSystemMessage } from '$lib/utils/moderation.server';
+import { announcementSchema } from '$lib/validation/moderation';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-announcement-server');
+
+function jsonResponse(body: ModerationResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// POST endpoint: post an announcement in every group room; direct conversations are left alone
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'moderator')) {
+        return jsonResponse({ success: false, error: 'Moderator role required' }, 403);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = announcementSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid announcement' }, 400);
+    }
+
+    try {
+        const rooms = await db.select({ id: chatRooms.id })
+            .from(chatRooms)
+            .where(eq(chatRooms.type, 'group'));
+
+        const content = `📢 ${parsed.data.content}`;
+        for (const room of rooms) {
+            await postSystemMessage(locals.user.id, content, room.id);
+        }
+
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: 'announce',
+            details: { content: parsed.data.content, rooms: rooms.length }
+        });
+
+        return jsonResponse({ success: true }, 201);
+    } catch (error) {
+        log.error('Error posting announcement', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to post announcement' }, 500);
+    }
+};
@@ -0,0 +1,111 @@
+import type { ModerationResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import {
+    canModerate,
+    createSanction,
+    disconnectUser,
+    formatSanctionDuration,
+    getActiveBan,
+    getModerationTarget,
+    getUsersSeenOnIp,
+    hashIp,
+    hasRole,
+    logModerationAction,
+    notifySanctionedUser,
+    postSystemMessage
+} from '$lib/utils/moderation.server';
+import { banSchema } from '$lib/validation/moderation';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-ban-server');
+
+function jsonResponse(body: ModerationResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// POST endpoint: ban a user or an IP address, for a while or permanently
+export const POST: RequestHandler = async ({ request, locals, getClientAddress }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'moderator')) {
+        return jsonResponse({ success: false, error: 'Moderator role required' }, 403);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = banSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid ban' }, 400);
+    }
+    const { userId, ip, durationMinutes, reason } = parsed.data;
+
+    try {
+        if (ip) {
+            const ipHash = await hashIp(ip);
+            if (ipHash === await hashIp(getClientAddress())) {
+                return jsonResponse({ success: false, error: 'You cannot ban your own IP address' }, 400);
+            }
+            if (await getActiveBan({ ipHash })) {
+                return jsonResponse({ success: false, error: 'IP address is already banned' }, 409);
+            }
+            // The role hierarchy applies to the users of the address as it does to a user ban
+            const actor = locals.user;
+            const seenUsers = await getUsersSeenOnIp(ipHash);
+            if (seenUsers.some(user => !canModerate(actor, user))) {
+                log.warn('IP ban refused: address used by a user with equal or higher role', {
+                    actorId: `${actor.id.slice(0, 4)}...${actor.id.slice(-4)}`
+                });
+                return jsonResponse({ success: false, error: 'You cannot ban the IP address of a user you cannot moderate' }, 403);
+            }
+
+            const sanction = await createSanction({ type: 'ban', createdBy: locals.user.id, ipHash, reason, durationMinutes });
+            await logModerationAction({
+                actorId: locals.user.id,
+                action: 'ban',
+                targetIpHash: ipHash,
+                sanctionId: sanction.id,
+                reason,
+                details: { durationMinutes }
+            });
+            return jsonResponse({ success: true, sanction }, 201);
+        }
+
+        const result = await getModerationTarget(locals.user, userId!);
+        if ('error' in result) {
+            return jsonResponse({ success: false, error: result.error }, result.status);
+        }
+        const { target } = result;
+
+        if (await getActiveBan({ userId: target.id })) {
+            return jsonResponse({ success: false, error: 'User is already banned' }, 409);
+        }
+
+        const sanction = await createSanction({ type: 'ban', createdBy: locals.user.id, userId: target.id, reason, durationMinutes });
+        notifySanctionedUser(target.id, { action: 'ban', reason, expiresAt: sanction.expiresAt ?? undefined });
+        await disconnectUser(target.id);
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: 'ban',
+            targetUserId: target.id,
+            sanctionId: sanction.id,
+            reason,
+            details: { durationMinutes }
+        });
+        await postSystemMessage(locals.user.id, `${target.nickname} a été banni ${formatSanctionDuration(durationMinutes)} par ${locals.user.nickname}.`);
+
+        return jsonResponse({ success: true, sanction }, 201);
+    } catch (error) {
+        log.error('Error banning', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to ban' }, 500);
+    }
+};
@@ -0,0 +1,83 @@
+import db from '$lib/db/db.server';
+import { contentRules } from '$lib/db/schema';
+import type { ContentRuleResponse, ContentRulesResponse } from '$lib/types/payloads';
+import { getContentRules, invalidateContentRules } from '$lib/utils/content-filter.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { hasRole, logModerationAction } from '$lib/utils/moderation.server';
+import { contentRuleSchema } from '$lib/validation/moderation';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-content-rules-server');
+
+function jsonResponse(body: ContentRuleResponse | ContentRulesResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// GET endpoint: every content filter rule, disabled ones included, admins only
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'admin')) {
+        return jsonResponse({ success: false, error: 'Admin role required' }, 403);
+    }
+
+    try {
+        return jsonResponse({ success: true, rules: await getContentRules() });
+    } catch (error) {
+        log.error('Error loading content rules', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to load content rules' }, 500);
+    }
+};
+
+// POST endpoint: add a content filter rule, admins only
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'admin')) {
+        return jsonResponse({ success: false, error: 'Admin role required' }, 403);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = contentRuleSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid rule' }, 400);
+    }
+
+    try {
+        const rule = await db.insert(contentRules)
+            .values({
+                kind: parsed.data.kind,
+                value: parsed.data.value,
+                action: parsed.data.action,
+                enabled: parsed.data.enabled ?? true,
+                createdBy: locals.user.id,
+                createdAt: Date.now()
+            })
+            .returning()
+            .get();
+        invalidateContentRules();
+
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: 'editContentRules',
+            details: { operation: 'create', ruleId: rule.id, kind: rule.kind, value: rule.value, ruleAction: rule.action }
+        });
+
+        return jsonResponse({ success: true, rule }, 201);
+    } catch (error) {
+        log.error('Error creating content rule', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to create content rule' }, 500);
+    }
+};
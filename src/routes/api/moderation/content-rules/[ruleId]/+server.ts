@@ -0,0 +1,96 @@
+import db from '$lib/db/db.server';
+import { contentRules } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { ContentRuleResponse } from '$lib/types/payloads';
+import { invalidateContentRules } from '$lib/utils/content-filter.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { hasRole, logModerationAction } from '$lib/utils/moderation.server';
+import { contentRuleUpdateSchema } from '$lib/validation/moderation';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-content-rule-server');
+
+function jsonResponse(body: ContentRuleResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// PATCH endpoint: enable, disable or change the action of a content filter rule, admins only
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'admin')) {
+        return jsonResponse({ success: false, error: 'Admin role required' }, 403);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = contentRuleUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid rule' }, 400);
+    }
+
+    try {
+        const rule = await db.update(contentRules)
+            .set(parsed.data)
+            .where(eq(contentRules.id, params.ruleId))
+            .returning()
+            .get();
+        if (!rule) {
+            return jsonResponse({ success: false, error: 'Rule not found' }, 404);
+        }
+        invalidateContentRules();
+
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: 'editContentRules',
+            details: { operation: 'update', ruleId: rule.id, ...parsed.data }
+        });
+
+        return jsonResponse({ success: true, rule });
+    } catch (error) {
+        log.error('Error updating content rule', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to update content rule' }, 500);
+    }
+};
+
+// DELETE endpoint: remove a content filter rule, admins only
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'admin')) {
+        return jsonResponse({ success: false, error: 'Admin role required' }, 403);
+    }
+
+    try {
+        const rule = await db.delete(contentRules)
+            .where(eq(contentRules.id, params.ruleId))
+            .returning()
+            .get();
+        if (!rule) {
+            return jsonResponse({ success: false, error: 'Rule not found' }, 404);
+        }
+        invalidateContentRules();
+
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: 'editContentRules',
+            details: { operation: 'delete', ruleId: rule.id, kind: rule.kind, value: rule.value }
+        });
+
+        return jsonResponse({ success: true });
+    } catch (error) {
+        log.error('Error deleting content rule', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to delete content rule' }, 500);
+    }
+};
@@ -0,0 +1,69 @@
+import type { ModerationResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import {
+    disconnectUser,
+    getModerationTarget,
+    hasRole,
+    logModerationAction,
+    notifySanctionedUser,
+    postSystemMessage
+} from '$lib/utils/moderation.server';
+import { kickSchema } from '$lib/validation/moderation';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-kick-server');
+
+function jsonResponse(body: ModerationResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// POST endpoint: log a user out of all their sessions
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'moderator')) {
+        return jsonResponse({ success: false, error: 'Moderator role required' }, 403);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = kickSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid kick' }, 400);
+    }
+
+    try {
+        const result = await getModerationTarget(locals.user, parsed.data.userId);
+        if ('error' in result) {
+            return jsonResponse({ success: false, error: result.error }, result.status);
+        }
+        const { target } = result;
+        const { reason } = parsed.data;
+
+        // Notify first: disconnectUser closes the user's streams
+        notifySanctionedUser(target.id, { action: 'kick', reason });
+        await disconnectUser(target.id);
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: 'kick',
+            targetUserId: target.id,
+            reason
+        });
+        await postSystemMessage(locals.user.id, `${target.nickname} a été expulsé par ${locals.user.nickname}.`);
+
+        return jsonResponse({ success: true });
+    } catch (error) {
+        log.error('Error kicking user', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to kick user' }, 500);
+    }
+};
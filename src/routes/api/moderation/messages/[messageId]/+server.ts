@@ -0,0 +1,65 @@
+import db from '$lib/db/db.server';
+import { messages, users } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { ModerationResponse } from '$lib/types/payloads';
+import { toMessage } from '$lib/utils/chat.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { tombstoneMessage } from '$lib/utils/messages.server';
+import { canModerate, hasRole, logModerationAction } from '$lib/utils/moderation.server';
+import { resolveReports } from '$lib/utils/reports.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-message-server');
+
+function jsonResponse(body: ModerationResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// DELETE endpoint: remove any message of a user below the moderator's role, whatever its age
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'moderator')) {
+        return jsonResponse({ success: false, error: 'Moderator role required' }, 403);
+    }
+
+    try {
+        const row = await db.select({ message: messages, senderRole: users.role })
+            .from(messages)
+            .innerJoin(users, eq(users.id, messages.senderId))
+            .where(eq(messages.id, params.messageId))
+            .get();
+
+        if (!row) {
+            return jsonResponse({ success: false, error: 'Message not found' }, 404);
+        }
+        if (row.message.deletedAt) {
+            return jsonResponse({ success: false, error: 'Message already deleted' }, 410);
+        }
+        // Moderators may remove their own messages too
+        const sender = { id: row.message.senderId, role: row.senderRole };
+        if (sender.id !== locals.user.id && !canModerate(locals.user, sender)) {
+            return jsonResponse({ success: false, error: 'You cannot moderate this user' }, 403);
+        }
+
+        const message = toMessage(row.message);
+        await tombstoneMessage(message);
+        // Deleting the message handles its reports
+        await resolveReports(message.id, locals.user.id);
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: 'deleteMessage',
+            targetUserId: message.senderId,
+            details: { messageId: message.id, chatRoomId: message.chatRoomId, content: message.content }
+        });
+
+        return jsonResponse({ success: true });
+    } catch (error) {
+        log.error('Error deleting message as moderator', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to delete message' }, 500);
+    }
+};
@@ -0,0 +1,83 @@
+import type { ModerationResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import {
+    createSanction,
+    formatSanctionDuration,
+    getActiveMute,
+    getModerationTarget,
+    hasRole,
+    logModerationAction,
+    notifySanctionedUser,
+    postSystemMessage
+} from '$lib/utils/moderation.server';
+import { muteSchema } from '$lib/validation/moderation';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-mute-server');
+
+function jsonResponse(body: ModerationResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// POST endpoint: prevent a user from posting messages for a while
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'moderator')) {
+        return jsonResponse({ success: false, error: 'Moderator role required' }, 403);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = muteSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid mute' }, 400);
+    }
+
+    try {
+        const result = await getModerationTarget(locals.user, parsed.data.userId);
+        if ('error' in result) {
+            return jsonResponse({ success: false, error: result.error }, result.status);
+        }
+        const { target } = result;
+
+        if (await getActiveMute(target.id)) {
+            return jsonResponse({ success: false, error: 'User is already muted' }, 409);
+        }
+
+        const { durationMinutes, reason } = parsed.data;
+        const sanction = await createSanction({
+            type: 'mute',
+            createdBy: locals.user.id,
+            userId: target.id,
+            reason,
+            durationMinutes
+        });
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: 'mute',
+            targetUserId: target.id,
+            sanctionId: sanction.id,
+            reason,
+            details: { durationMinutes }
+        });
+
+        notifySanctionedUser(target.id, { action: 'mute', reason, expiresAt: sanction.expiresAt ?? undefined });
+        await postSystemMessage(locals.user.id, `${target.nickname} a été rendu muet ${formatSanctionDuration(durationMinutes)} par ${locals.user.nickname}.`);
+
+        return jsonResponse({ success: true, sanction }, 201);
+    } catch (error) {
+        log.error('Error muting user', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to mute user' }, 500);
+    }
+};
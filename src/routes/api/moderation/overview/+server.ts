@@ -0,0 +1,49 @@
+import type { ModerationOverviewResponse } from '$lib/types/payloads';
+import { sseConnectionTracker } from '$lib/sseConnectionTracker';
+import { createLogger } from '$lib/utils/logger.server';
+import { getActiveSanctions, getRecentModerationLogs, hasRole } from '$lib/utils/moderation.server';
+import { getOpenReports } from '$lib/utils/reports.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-overview-server');
+
+const AUDIT_LOG_LIMIT = 50;
+const REPORTS_LIMIT = 50;
+
+function jsonResponse(body: ModerationOverviewResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// GET endpoint: everything the moderator console shows
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'moderator')) {
+        return jsonResponse({ success: false, error: 'Moderator role required' }, 403);
+    }
+
+    try {
+        const [reports, sanctions, auditLog] = await Promise.all([
+            getOpenReports(REPORTS_LIMIT),
+            getActiveSanctions(),
+            getRecentModerationLogs(AUDIT_LOG_LIMIT)
+        ]);
+
+        return jsonResponse({
+            success: true,
+            reports,
+            sanctions,
+            auditLog,
+            connections: {
+                users: sseConnectionTracker.getConnectedUserCount()
+            }
+        });
+    } catch (error) {
+        log.error('Error fetching moderation overview', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to fetch moderation overview' }, 500);
+    }
+};
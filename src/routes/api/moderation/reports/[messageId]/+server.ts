@@ -0,0 +1,42 @@
+import type { ModerationResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import { hasRole, logModerationAction } from '$lib/utils/moderation.server';
+import { resolveReports } from '$lib/utils/reports.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-reports-server');
+
+function jsonResponse(body: ModerationResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// DELETE endpoint: dismiss the open reports of a message, which shows it to visitors again
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'moderator')) {
+        return jsonResponse({ success: false, error: 'Moderator role required' }, 403);
+    }
+
+    try {
+        const resolved = await resolveReports(params.messageId, locals.user.id);
+        if (resolved === 0) {
+            return jsonResponse({ success: false, error: 'No open reports for this message' }, 404);
+        }
+
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: 'dismissReports',
+            details: { messageId: params.messageId, reports: resolved }
+        });
+
+        return jsonResponse({ success: true });
+    } catch (error) {
+        log.error('Error dismissing reports', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to dismiss reports' }, 500);
+    }
+};
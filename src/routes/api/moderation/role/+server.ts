@@ -0,0 +1,77 @@
+import db from '$lib/db/db.server';
+import { users } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { ModerationResponse } from '$lib/types/payloads';
+import { createSafeUser } from '$lib/types/chat';
+import { pushPresenceDelta } from '$lib/utils/buddies.server';
+import { createLogger } from '$lib/utils/logger.server';
+import { hasRole, logModerationAction } from '$lib/utils/moderation.server';
+import { setRoleSchema } from '$lib/validation/moderation';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-role-server');
+
+function jsonResponse(body: ModerationResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// POST endpoint: change the role of a user, admins only
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'admin')) {
+        return jsonResponse({ success: false, error: 'Admin role required' }, 403);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = setRoleSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid role' }, 400);
+    }
+    const { userId, role } = parsed.data;
+
+    // Keeps at least one admin: admins cannot demote themselves
+    if (userId === locals.user.id) {
+        return jsonResponse({ success: false, error: 'You cannot change your own role' }, 400);
+    }
+
+    try {
+        const target = await db.select({ id: users.id, role: users.role })
+            .from(users)
+            .where(eq(users.id, userId))
+            .get();
+        if (!target) {
+            return jsonResponse({ success: false, error: 'User not found' }, 404);
+        }
+
+        const updatedUser = await db.update(users)
+            .set({ role })
+            .where(eq(users.id, userId))
+            .returning()
+            .get();
+        await pushPresenceDelta(createSafeUser(updatedUser), 'updated');
+
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: 'setRole',
+            targetUserId: userId,
+            details: { from: target.role, to: role }
+        });
+
+        return jsonResponse({ success: true });
+    } catch (error) {
+        log.error('Error changing user role', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to change role' }, 500);
+    }
+};
@@ -0,0 +1,72 @@
+import db from '$lib/db/db.server';
+import { sanctions } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { ModerationResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import {
+    getModerationTarget,
+    hasRole,
+    liftSanction,
+    logModerationAction,
+    postSystemMessage
+} from '$lib/utils/moderation.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('moderation-sanction-server');
+
+function jsonResponse(body: ModerationResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// DELETE endpoint: lift a mute or a ban before it expires
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+    if (!locals.user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+    if (!hasRole(locals.user, 'moderator')) {
+        return jsonResponse({ success: false, error: 'Moderator role required' }, 403);
+    }
+
+    try {
+        const sanction = await db.select()
+            .from(sanctions)
+            .where(eq(sanctions.id, params.sanctionId))
+            .get();
+        if (!sanction) {
+            return jsonResponse({ success: false, error: 'Sanction not found' }, 404);
+        }
+
+        const target = sanction.userId ? await getModerationTarget(locals.user, sanction.userId) : null;
+        if (target && 'error' in target) {
+            return jsonResponse({ success: false, error: target.error }, target.status);
+        }
+
+        const lifted = await liftSanction(sanction.id, locals.user.id);
+        if (!lifted) {
+            return jsonResponse({ success: false, error: 'Sanction is no longer active' }, 410);
+        }
+
+        await logModerationAction({
+            actorId: locals.user.id,
+            action: sanction.type === 'mute' ? 'unmute' : 'unban',
+            targetUserId: sanction.userId ?? undefined,
+            targetIpHash: sanction.ipHash ?? undefined,
+            sanctionId: sanction.id
+        });
+
+        if (target) {
+            const announcement = sanction.type === 'mute'
+                ? `${target.target.nickname} peut de nouveau parler.`
+                : `Le bannissement de ${target.target.nickname} a été levé.`;
+            await postSystemMessage(locals.user.id, announcement);
+        }
+
+        return jsonResponse({ success: true, sanction: lifted });
+    } catch (error) {
+        log.error('Error lifting sanction', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to lift sanction' }, 500);
+    }
+};
@@ -1,7 +1,7 @@
 import type { RequestHandler } from '@sveltejs/kit';
 import type { RegisterResponseSuccess, RegisterResponseError } from '$lib/types/payloads';
 import db from '$lib/db/db.server';
-import { users } from '$lib/db/schema';
+import { loginFailures, users } from '$lib/db/schema';
 import { hashPassword } from '$lib/utils/password';
 import { createRegistrationSchema, DEFAULT_PASSWORD_CONSTRAINTS } from '$lib/validation/password';
 import { createLogger } from '$lib/utils/logger.server';
@@ -110,6 +110,8 @@ export const POST: RequestHandler = async ({ request }) => {
 			password: hashedPassword,
 			createdAt: Date.now()
 		});
+		// Failed logins with the nickname from before it was registered are not the new user's
+		await db.delete(loginFailures).where(eq(loginFailures.nickname, username));
 		log.info(`User ${username} registered successfully`);
 	} catch (err: unknown) {
 		log.error('Database insertion error', { error: err as object });
@@ -0,0 +1,109 @@
+import db from '$lib/db/db.server';
+import { users } from '$lib/db/schema';
+import { inArray } from 'drizzle-orm';
+import type { CreateRoomResponse, ListRoomsResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import { createRoom, getUserRooms } from '$lib/utils/rooms.server';
+import { isBlockedBy } from '$lib/utils/buddies.server';
+import { createRoomSchema } from '$lib/validation/room';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('rooms-list-server');
+
+// GET endpoint: list the rooms the current user belongs to
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user) {
+        log.warn('Authentication required');
+        const errorResponse: ListRoomsResponse = { success: false, error: 'Unauthorized' };
+        return new Response(JSON.stringify(errorResponse), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    try {
+        const rooms = await getUserRooms(locals.user.id);
+        log.debug('Rooms listed', {
+            userId: `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`,
+            count: rooms.length
+        });
+
+        const response: ListRoomsResponse = { success: true, rooms };
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        log.error('Error listing rooms', { error: error instanceof Error ? error.message : 'Unknown error' });
+        const errorResponse: ListRoomsResponse = { success: false, error: 'Failed to list rooms' };
+        return new Response(JSON.stringify(errorResponse), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
+
+// POST endpoint: create a group room owned by the current user
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        log.warn('Authentication required');
+        const errorResponse: CreateRoomResponse = { success: false, error: 'Unauthorized' };
+        return new Response(JSON.stringify(errorResponse), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        const errorResponse: CreateRoomResponse = { success: false, error: 'Invalid JSON' };
+        return new Response(JSON.stringify(errorResponse), { status: 400 });
+    }
+
+    const parsed = createRoomSchema.safeParse(body);
+    if (!parsed.success) {
+        const errorMessage = parsed.error.issues[0]?.message || 'Invalid room data';
+        log.warn('Room validation failed', { error: errorMessage });
+        const errorResponse: CreateRoomResponse = { success: false, error: errorMessage };
+        return new Response(JSON.stringify(errorResponse), { status: 400 });
+    }
+
+    try {
+        // Only keep member ids that belong to existing users
+        const requestedIds = parsed.data.memberIds ?? [];
+        const existingMembers = requestedIds.length > 0
+            ? await db.select({ id: users.id }).from(users).where(inArray(users.id, requestedIds))
+            : [];
+
+        // Members are added without being asked, so users who blocked the creator, or were blocked by them, are left out
+        const creatorId = locals.user.id;
+        const blocked = await Promise.all(existingMembers.map(member =>
+            Promise.all([isBlockedBy(member.id, creatorId), isBlockedBy(creatorId, member.id)])
+                .then(([blockedCreator, blockedByCreator]) => blockedCreator || blockedByCreator)));
+        const memberIds = existingMembers.map(member => member.id).filter((_, index) => !blocked[index]);
+        if (memberIds.length < existingMembers.length) {
+            log.info('Blocked users left out of a new room', {
+                userId: `${creatorId.slice(0, 4)}...${creatorId.slice(-4)}`,
+                count: existingMembers.length - memberIds.length
+            });
+        }
+
+        const room = await createRoom({ name: parsed.data.name, type: 'group' }, creatorId, memberIds);
+
+        const response: CreateRoomResponse = { success: true, room };
+        return new Response(JSON.stringify(response), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        log.error('Error creating room', { error: error instanceof Error ? error.message : 'Unknown error' });
+        const errorResponse: CreateRoomResponse = { success: false, error: 'Failed to create room' };
+        return new Response(JSON.stringify(errorResponse), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
@@ -0,0 +1,55 @@
+import type { RoomMembershipResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import { addRoomMember, getRoom, isPublicRoom } from '$lib/utils/rooms.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('rooms-join-server');
+
+// POST endpoint: join a group room
+export const POST: RequestHandler = async ({ params, locals }) => {
+    if (!locals.user) {
+        log.warn('Authentication required');
+        const errorResponse: RoomMembershipResponse = { success: false, error: 'Unauthorized' };
+        return new Response(JSON.stringify(errorResponse), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    const { roomId } = params;
+    const maskedUserId = `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`;
+
+    try {
+        const room = await getRoom(roomId);
+        if (!room) {
+            log.warn('Room not found', { roomId });
+            const errorResponse: RoomMembershipResponse = { success: false, error: 'Chat room not found' };
+            return new Response(JSON.stringify(errorResponse), { status: 404 });
+        }
+
+        // Direct rooms are closed to anyone but their two participants
+        if (room.type !== 'group') {
+            log.warn('Attempt to join a non-group room', { roomId, userId: maskedUserId });
+            const errorResponse: RoomMembershipResponse = { success: false, error: 'Only group rooms can be joined' };
+            return new Response(JSON.stringify(errorResponse), { status: 403 });
+        }
+
+        if (!isPublicRoom(roomId)) {
+            await addRoomMember(roomId, locals.user.id);
+        }
+        log.info('User joined room', { roomId, userId: maskedUserId });
+
+        const response: RoomMembershipResponse = { success: true, roomId };
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        log.error('Error joining room', { roomId, error: error instanceof Error ? error.message : 'Unknown error' });
+        const errorResponse: RoomMembershipResponse = { success: false, error: 'Failed to join room' };
+        return new Response(JSON.stringify(errorResponse), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
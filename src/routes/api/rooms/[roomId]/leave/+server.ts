@@ -0,0 +1,58 @@
+import type { RoomMembershipResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import { getRoom, isPublicRoom, removeRoomMember } from '$lib/utils/rooms.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('rooms-leave-server');
+
+// POST endpoint: leave a room the user belongs to
+export const POST: RequestHandler = async ({ params, locals }) => {
+    if (!locals.user) {
+        log.warn('Authentication required');
+        const errorResponse: RoomMembershipResponse = { success: false, error: 'Unauthorized' };
+        return new Response(JSON.stringify(errorResponse), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    const { roomId } = params;
+    const maskedUserId = `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`;
+
+    if (isPublicRoom(roomId)) {
+        log.warn('Attempt to leave the default room', { userId: maskedUserId });
+        const errorResponse: RoomMembershipResponse = { success: false, error: 'The default room cannot be left' };
+        return new Response(JSON.stringify(errorResponse), { status: 400 });
+    }
+
+    try {
+        // Direct rooms are found again by their pair of users, so leaving one would lock the user out of the conversation
+        const room = await getRoom(roomId);
+        if (room?.type === 'direct') {
+            log.warn('Attempt to leave a direct room', { roomId, userId: maskedUserId });
+            const errorResponse: RoomMembershipResponse = { success: false, error: 'Direct conversations cannot be left' };
+            return new Response(JSON.stringify(errorResponse), { status: 400 });
+        }
+
+        const removed = await removeRoomMember(roomId, locals.user.id);
+        if (!removed) {
+            log.warn('User is not a member of the room', { roomId, userId: maskedUserId });
+            const errorResponse: RoomMembershipResponse = { success: false, error: 'Not a member of this room' };
+            return new Response(JSON.stringify(errorResponse), { status: 404 });
+        }
+        log.info('User left room', { roomId, userId: maskedUserId });
+
+        const response: RoomMembershipResponse = { success: true, roomId };
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        log.error('Error leaving room', { roomId, error: error instanceof Error ? error.message : 'Unknown error' });
+        const errorResponse: RoomMembershipResponse = { success: false, error: 'Failed to leave room' };
+        return new Response(JSON.stringify(errorResponse), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
@@ -0,0 +1,76 @@
+import db from '$lib/db/db.server';
+import { users } from '$lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { createSafeUser } from '$lib/types/chat';
+import type { DirectRoomRequest, DirectRoomResponse } from '$lib/types/payloads';
+import { createLogger } from '$lib/utils/logger.server';
+import { findOrCreateDirectRoom } from '$lib/utils/rooms.server';
+import { isBlockedBy } from '$lib/utils/buddies.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('rooms-direct-server');
+
+// POST endpoint: open (or create on first use) the direct room with another user
+export const POST: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        log.warn('Authentication required');
+        const errorResponse: DirectRoomResponse = { success: false, error: 'Unauthorized' };
+        return new Response(JSON.stringify(errorResponse), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    let body: DirectRoomRequest;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        const errorResponse: DirectRoomResponse = { success: false, error: 'Invalid JSON' };
+        return new Response(JSON.stringify(errorResponse), { status: 400 });
+    }
+
+    if (typeof body.userId !== 'string' || !body.userId || body.userId === locals.user.id) {
+        log.warn('Invalid direct room peer', { hasPeer: Boolean(body.userId) });
+        const errorResponse: DirectRoomResponse = { success: false, error: 'Invalid recipient' };
+        return new Response(JSON.stringify(errorResponse), { status: 400 });
+    }
+
+    const maskedUserId = `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`;
+    const maskedPeerId = `${body.userId.slice(0, 4)}...${body.userId.slice(-4)}`;
+
+    try {
+        const peer = await db.select()
+            .from(users)
+            .where(eq(users.id, body.userId))
+            .get();
+
+        if (!peer) {
+            log.warn('Direct room peer not found', { peerId: maskedPeerId });
+            const errorResponse: DirectRoomResponse = { success: false, error: 'User not found' };
+            return new Response(JSON.stringify(errorResponse), { status: 404 });
+        }
+
+        if (await isBlockedBy(peer.id, locals.user.id)) {
+            log.debug('Direct room refused, blocked by peer', { userId: maskedUserId, peerId: maskedPeerId });
+            const errorResponse: DirectRoomResponse = { success: false, error: 'This user does not accept your messages' };
+            return new Response(JSON.stringify(errorResponse), { status: 403 });
+        }
+
+        const room = await findOrCreateDirectRoom(locals.user.id, peer.id);
+        log.debug('Direct room ready', { roomId: room.id, userId: maskedUserId, peerId: maskedPeerId });
+
+        const response: DirectRoomResponse = { success: true, room, peer: createSafeUser(peer) };
+        return new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        log.error('Error opening direct room', { error: error instanceof Error ? error.message : 'Unknown error' });
+        const errorResponse: DirectRoomResponse = { success: false, error: 'Failed to open conversation' };
+        return new Response(JSON.stringify(errorResponse), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
@@ -0,0 +1,41 @@
+import type { RevokeSessionsResponse } from '$lib/types/payloads';
+import { invalidateUserSession } from '$lib/api/session.server';
+import { deleteSessionTokenCookie } from '$lib/api/session.cookie';
+import { createLogger } from '$lib/utils/logger.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('session-revoke-server');
+
+function jsonResponse(body: RevokeSessionsResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// DELETE endpoint: close one session of the current user. Closing the current one logs out.
+export const DELETE: RequestHandler = async ({ params, locals, cookies }) => {
+    if (!locals.user || !locals.session) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    try {
+        const revoked = await invalidateUserSession(locals.user.id, params.id);
+        if (!revoked) {
+            return jsonResponse({ success: false, error: 'Session not found' }, 404);
+        }
+
+        if (params.id === locals.session.id) {
+            deleteSessionTokenCookie({ cookies });
+        }
+        log.info('Session revoked', {
+            userId: `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`,
+            isCurrent: params.id === locals.session.id
+        });
+
+        return jsonResponse({ success: true, revoked: 1 });
+    } catch (error) {
+        log.error('Error revoking session', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to revoke session' }, 500);
+    }
+};
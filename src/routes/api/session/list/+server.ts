@@ -0,0 +1,28 @@
+import type { ListSessionsResponse } from '$lib/types/payloads';
+import { listUserSessions } from '$lib/api/session.server';
+import { createLogger } from '$lib/utils/logger.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('session-list-server');
+
+function jsonResponse(body: ListSessionsResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// GET endpoint: the active sessions of the current user, to see where they are logged in
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user || !locals.session) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    try {
+        const sessions = await listUserSessions(locals.user.id, locals.session.id);
+        return jsonResponse({ success: true, sessions });
+    } catch (error) {
+        log.error('Error listing sessions', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to list sessions' }, 500);
+    }
+};
@@ -3,12 +3,21 @@ import type { LoginResponseSuccess, LoginResponseError } from '$lib/types/payloa
 import db from '$lib/db/db.server';
 import { users } from '$lib/db/schema';
 import { eq } from 'drizzle-orm/sql';
-import { verifyPassword } from '$lib/utils/password';
+import { hashPassword, needsRehash, verifyPassword } from '$lib/utils/password';
 import { generateSessionToken, createSession } from '$lib/api/session.server';
 import { setSessionTokenCookie } from '$lib/api/session.cookie';
 import { createSafeUser } from '$lib/types/chat';
 import { createLogger } from '$lib/utils/logger.server';
 import { loginSchema } from '$lib/validation/password';
+import { getActiveBan, hashIp } from '$lib/utils/moderation.server';
+import {
+    getAccountLoginState,
+    recordLoginFailure,
+    takeLoginFailures,
+    TURNSTILE_THRESHOLD,
+    verifyDummyPassword
+} from '$lib/utils/login-protection.server';
+import { validateTurnstileToken } from '$lib/utils/turnstile.server';
 import { z } from 'zod';
 
 const log = createLogger('login-server');
@@ -30,7 +39,7 @@ setInterval(() => {
 }, 60 * 60 * 1000);
 
 
-export const POST: RequestHandler = async ({ request, cookies }) => {
+export const POST: RequestHandler = async ({ request, cookies, getClientAddress }) => {
     log.debug('New login attempt received');
 
     if (request.method !== 'POST') {
@@ -64,9 +73,11 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
         );
     }
 
-    const { username, password } = body as {
+    const { username, password, rememberMe, turnstileToken } = body as {
         username: string;
         password: string;
+        rememberMe?: boolean;
+        turnstileToken?: string;
     };
 
     // Validate input using Zod schema
@@ -84,40 +95,63 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
 
 
     // Find user by username
+    const nickname = username.trim();
     const user = await db.query.users.findFirst({
-        where: eq(users.nickname, username.trim())
+        where: eq(users.nickname, nickname)
     });
-
-    if (!user) {
-        attemptData.count++;
-        attemptData.lastAttempt = now;
-        loginAttempts.set(ip, attemptData);
-        log.warn('Login failed - user not found', { 
-            maskedIp, 
-            attemptCount: attemptData.count,
-            username: username.trim()
+    const clientAddress = getClientAddress();
+    const ipHash = await hashIp(clientAddress);
+
+    // Locked nicknames are refused before their password is even checked, registered or not
+    const accountState = await getAccountLoginState(nickname);
+    if (accountState.lockedUntil) {
+        log.warn('Login refused - nickname locked', {
+            maskedIp,
+            userId: user ? `${user.id.slice(0, 4)}...${user.id.slice(-4)}` : undefined,
+            lockedUntil: new Date(accountState.lockedUntil).toISOString()
         });
-        const remaining = Math.max(0, MAX_ATTEMPTS - attemptData.count);
-        return new Response(JSON.stringify({ 
-            error: `Invalid username or password. ${remaining > 0 ? remaining + " attempt(s) remaining." : "Please wait before trying again."}` 
-        } as LoginResponseError), { status: 401 });
+        return new Response(JSON.stringify({
+            error: `Too many failed attempts. This account is locked until ${new Date(accountState.lockedUntil).toISOString()}.`,
+            lockedUntil: accountState.lockedUntil,
+            requiresTurnstile: true
+        } as LoginResponseError), { status: 429 });
+    }
+
+    // A Turnstile challenge is required after repeated failures with the nickname or from the IP address
+    const requiresTurnstile = accountState.requiresTurnstile || attemptData.count >= TURNSTILE_THRESHOLD;
+    if (requiresTurnstile && !(turnstileToken && await validateTurnstileToken(turnstileToken, clientAddress))) {
+        log.warn('Login refused - Turnstile challenge missing or invalid', { maskedIp });
+        return new Response(JSON.stringify({
+            error: 'Please complete the verification challenge.',
+            requiresTurnstile: true
+        } as LoginResponseError), { status: 400 });
     }
 
-    // Verify password
+    // Verify password. Unknown nicknames are checked against a dummy hash so they answer in the same time.
     try {
-        const isValid = await verifyPassword(password.trim(), user.password);
-        if (!isValid) {
+        let isValid = false;
+        if (user) {
+            isValid = await verifyPassword(password.trim(), user.password);
+        } else {
+            await verifyDummyPassword(password.trim());
+        }
+        if (!user || !isValid) {
             attemptData.count++;
             attemptData.lastAttempt = now;
             loginAttempts.set(ip, attemptData);
-            log.warn('Login failed - invalid password', { 
-                maskedIp, 
+
+            // Unknown nicknames count failures too, so their answers are the same as for wrong passwords
+            const failedState = await recordLoginFailure(nickname, { ipHash, userAgent: request.headers.get('user-agent') });
+            log.warn(user ? 'Login failed - invalid password' : 'Login failed - user not found', {
+                maskedIp,
                 attemptCount: attemptData.count,
-                userId: `${user.id.slice(0, 4)}...${user.id.slice(-4)}`
+                accountFailures: failedState.failures,
+                userId: user ? `${user.id.slice(0, 4)}...${user.id.slice(-4)}` : undefined
             });
             const remaining = Math.max(0, MAX_ATTEMPTS - attemptData.count);
             return new Response(JSON.stringify({ 
-                error: `Invalid username or password. ${remaining > 0 ? remaining + " attempt(s) remaining." : "Please wait before trying again."}` 
+                error: `Invalid username or password. ${remaining > 0 ? remaining + " attempt(s) remaining." : "Please wait before trying again."}`,
+                requiresTurnstile: failedState.requiresTurnstile || attemptData.count >= TURNSTILE_THRESHOLD
             } as LoginResponseError), { status: 401 });
         }
     } catch (error) {
@@ -128,9 +162,35 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
     // Reset login attempt data on success
     loginAttempts.delete(ip);
 
+    // Upgrade hashes derived with older parameters while the plain password is at hand
+    if (needsRehash(user.password)) {
+        try {
+            await db.update(users)
+                .set({ password: await hashPassword(password.trim()) })
+                .where(eq(users.id, user.id));
+            log.info('Password hash upgraded', { userId: `${user.id.slice(0, 4)}...${user.id.slice(-4)}` });
+        } catch (error) {
+            log.error('Error upgrading password hash', { error });
+        }
+    }
+
+    // Banned users cannot open new sessions
+    const ban = await getActiveBan({ userId: user.id });
+    if (ban) {
+        log.warn('Login refused - user is banned', { userId: `${user.id.slice(0, 4)}...${user.id.slice(-4)}` });
+        return new Response(JSON.stringify({
+            error: ban.expiresAt
+                ? `You are banned until ${new Date(ban.expiresAt).toISOString()}.`
+                : 'You are banned.'
+        } as LoginResponseError), { status: 403 });
+    }
+
     // Generate session token and create session
     const token = generateSessionToken();
-    const session = await createSession(token, user.id);
+    const session = await createSession(token, user.id, {
+        userAgent: request.headers.get('user-agent'),
+        ipHash
+    }, rememberMe === true);
 
     // Update user status to online
     await db.update(users)
@@ -141,16 +201,28 @@ export const POST: RequestHandler = async ({ request, cookies }) => {
         .where(eq(users.id, user.id));
 
     // Set session cookie
-    setSessionTokenCookie({ cookies }, token, session.expiresAt);
+    setSessionTokenCookie({ cookies }, token, session.expiresAt, session.isPersistent);
 
     log.info('Login successful', { 
         userId: `${user.id.slice(0, 4)}...${user.id.slice(-4)}`,
-        expiresAt: new Date(session.expiresAt).toISOString()
+        expiresAt: new Date(session.expiresAt).toISOString(),
+        isPersistent: session.isPersistent
     });
 
+
+    // Tell the user about the failed attempts since their last login
+    const failedLoginAttempts = await takeLoginFailures(user.nickname);
+    if (failedLoginAttempts.length > 0) {
+        log.info('Failed login attempts reported to user', {
+            userId: `${user.id.slice(0, 4)}...${user.id.slice(-4)}`,
+            count: failedLoginAttempts.length
+        });
+    }
+
     return new Response(JSON.stringify({ 
         success: true,
-        user: createSafeUser(user)
+        user: createSafeUser(user),
+        failedLoginAttempts: failedLoginAttempts.length > 0 ? failedLoginAttempts : undefined
     } as LoginResponseSuccess), { 
         status: 200 
     });
@@ -0,0 +1,33 @@
+import type { RevokeSessionsResponse } from '$lib/types/payloads';
+import { invalidateOtherSessions } from '$lib/api/session.server';
+import { createLogger } from '$lib/utils/logger.server';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('session-others-server');
+
+function jsonResponse(body: RevokeSessionsResponse, status = 200) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// DELETE endpoint: log out everywhere else, keeping only the current session
+export const DELETE: RequestHandler = async ({ locals }) => {
+    if (!locals.user || !locals.session) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    try {
+        const revoked = await invalidateOtherSessions(locals.user.id, locals.session.id);
+        log.info('Other sessions revoked', {
+            userId: `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`,
+            revoked
+        });
+
+        return jsonResponse({ success: true, revoked });
+    } catch (error) {
+        log.error('Error revoking other sessions', { error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to revoke sessions' }, 500);
+    }
+};
@@ -9,10 +9,12 @@ import { sseEmitter } from '$lib/sseEmitter';
 import db from '$lib/db/db.server';
 import { users } from '$lib/db/schema';
 import { eq, and, lt, ne } from 'drizzle-orm';
-import { createSafeUser } from '$lib/types/chat';
 import { createLogger } from '$lib/utils/logger.server';
 import { sseConnectionTracker } from '$lib/sseConnectionTracker';
-import { buddyListCache } from '$lib/buddyListCache';
+import { getUserRoomIds } from '$lib/utils/rooms.server';
+import { sseReplayBuffer } from '$lib/sseReplayBuffer';
+import { getBuddyList, pushPresenceDelta } from '$lib/utils/buddies.server';
+import { createSafeUser, type BuddyList } from '$lib/types/chat';
 
 const log = createLogger('sse-server');
 
@@ -22,15 +24,7 @@ console.log('[SSE] Server initialized');
 const ONLINE_TIMEOUT_MS = 2 * 60 * 1000; // 2 minutes
 const CHECK_INTERVAL_MS = 30 * 1000; // Check every 30 seconds
 
-// Update the interval constant
-const BUDDY_LIST_BROADCAST_INTERVAL = 10000; // 10 seconds
-
 let timeoutInterval: ReturnType<typeof setInterval>;
-let buddyListInterval: ReturnType<typeof setInterval>;
-
-// Add a timestamp tracker for buddy list updates
-let lastBuddyListUpdate = 0;
-let lastBuddyListData: unknown[] = [];
 
 // Initialize periodic check for timed out users
 function startTimeoutCheck() {
@@ -58,11 +52,7 @@ function startTimeoutCheck() {
                         lt(users.lastSeen, timeoutThreshold) // Who haven't been seen recently
                     )
                 )
-                .returning({ 
-                    id: users.id,
-                    nickname: users.nickname,
-                    lastSeen: users.lastSeen
-                });
+                .returning();
 
             if (result.length > 0) {
                 log.info('User status updated to offline', {
@@ -70,8 +60,9 @@ function startTimeoutCheck() {
                     timeoutThreshold: new Date(timeoutThreshold).toISOString()
                 });
                 
-                // Invalidate buddy list cache when users timeout
-                buddyListCache.invalidate();
+                for (const user of result) {
+                    await pushPresenceDelta(createSafeUser(user), 'offline');
+                }
             }
         } catch (error) {
             log.error('Error during timeout check', { error });
@@ -79,54 +70,6 @@ function startTimeoutCheck() {
     }, CHECK_INTERVAL_MS);
 }
 
-function startBuddyListUpdateInterval() {
-    if (buddyListInterval) {
-        clearInterval(buddyListInterval);
-    }
-
-    buddyListInterval = setInterval(async () => {
-        try {
-            const now = Date.now();
-            // Only fetch and broadcast if 10 seconds have passed since last update
-            if (now - lastBuddyListUpdate >= BUDDY_LIST_BROADCAST_INTERVAL) {
-                // Only query database if cache is invalid or doesn't exist
-                if (buddyListCache.needsRefresh()) {
-                    log.debug('Fetching buddy list from database (cache miss)...');
-                    // Query the complete buddy list from the database.
-                    const buddyList = await db.select().from(users);
-                    // Use createSafeUser to properly sanitize user data
-                    const safeBuddyList = buddyList.map(user => createSafeUser(user));
-                    
-                    // Update cache and check if data changed
-                    const hasChanged = buddyListCache.update(safeBuddyList);
-                    
-                    if (hasChanged) {
-                        log.debug('Broadcasting buddy list update (data changed)...');
-                        sseEmitter.emit('sse', {
-                            type: 'buddyListUpdate',
-                            data: safeBuddyList
-                        });
-                    }
-                } else {
-                    // Use cached data
-                    const cachedData = buddyListCache.get();
-                    if (cachedData && JSON.stringify(cachedData) !== JSON.stringify(lastBuddyListData)) {
-                        log.debug('Broadcasting buddy list update from cache...');
-                        lastBuddyListData = cachedData;
-                        sseEmitter.emit('sse', {
-                            type: 'buddyListUpdate',
-                            data: cachedData
-                        });
-                    }
-                }
-                lastBuddyListUpdate = now;
-            }
-        } catch (error) {
-            log.error('Error fetching buddy list for update', { error });
-        }
-    }, 1000); // Check every second but only broadcast every 10 seconds
-}
-
 // Add periodic cleanup for stale connections
 let connectionCleanupInterval: ReturnType<typeof setInterval>;
 
@@ -136,16 +79,19 @@ function startConnectionCleanup() {
     }
     
     connectionCleanupInterval = setInterval(() => {
-        const staleUserIds = sseConnectionTracker.cleanupStaleConnections();
-        if (staleUserIds.length > 0) {
-            // Mark stale connections as offline
-            staleUserIds.forEach(async (userId) => {
+        sseReplayBuffer.prune();
+
+        // Users whose last connection went stale are offline, other tabs keep them online
+        const offlineUserIds = sseConnectionTracker.cleanupStaleConnections();
+        if (offlineUserIds.length > 0) {
+            offlineUserIds.forEach(async (userId) => {
                 try {
-                    await db.update(users)
+                    const user = await db.update(users)
                         .set({ status: 'offline', lastSeen: Date.now() })
-                        .where(eq(users.id, userId));
-                    
-                    buddyListCache.invalidate();
+                        .where(eq(users.id, userId))
+                        .returning()
+                        .get();
+                    if (user) await pushPresenceDelta(createSafeUser(user), 'offline');
                 } catch (error) {
                     log.error('Error updating stale user status', { userId, error });
                 }
@@ -157,10 +103,9 @@ function startConnectionCleanup() {
 // <<< NEW: Ensure intervals are started only once >>>
 if (!globalThis.__sseIntervalsStarted) {
     startTimeoutCheck();
-    startBuddyListUpdateInterval();
     startConnectionCleanup();
     globalThis.__sseIntervalsStarted = true;
-    log.info('Started global intervals for timeout and buddy list updates');
+    log.info('Started global intervals for timeouts and stale connections');
 } else {
     log.debug('Global intervals already started, skipping initialization');
 }
@@ -169,33 +114,30 @@ if (!globalThis.__sseIntervalsStarted) {
 if (typeof process !== 'undefined') {
     process.on('beforeExit', () => {
         if (timeoutInterval) clearInterval(timeoutInterval);
-        if (buddyListInterval) clearInterval(buddyListInterval);
         if (connectionCleanupInterval) clearInterval(connectionCleanupInterval);
     });
     
     // Also handle SIGTERM and SIGINT
     process.on('SIGTERM', () => {
         if (timeoutInterval) clearInterval(timeoutInterval);
-        if (buddyListInterval) clearInterval(buddyListInterval);
         if (connectionCleanupInterval) clearInterval(connectionCleanupInterval);
         process.exit(0);
     });
     
     process.on('SIGINT', () => {
         if (timeoutInterval) clearInterval(timeoutInterval);
-        if (buddyListInterval) clearInterval(buddyListInterval);
         if (connectionCleanupInterval) clearInterval(connectionCleanupInterval);
         process.exit(0);
     });
 }
 
-export const GET: RequestHandler = async ({ request, locals,  }) => {
+export const GET: RequestHandler = async ({ request, locals, url }) => {
     log.debug('Processing SSE request', {
         url: request.url,
         userId: locals.user?.id
     });
 
-    if (!locals.user) {
+    if (!locals.user || !locals.session) {
         log.warn('Authentication failed - no user in locals');
         return new Response('Unauthorized', { 
             status: 401,
@@ -208,56 +150,107 @@ export const GET: RequestHandler = async ({ request, locals,  }) => {
     const userId = locals.user.id;
     const encoder = new TextEncoder();
     let keepAliveInterval: ReturnType<typeof setInterval>;
-    let onSSE: ((event: { type: string; data: unknown }) => void) | undefined;
+    let onSSE: ((event: { type: string; data: unknown }, eventId?: number) => void) | undefined;
+    let streamController: ReadableStreamDefaultController | undefined;
+
+    // Browsers send the header on automatic reconnects, the client passes it explicitly when it reconnects itself
+    const lastEventIdParam = request.headers.get('Last-Event-ID') ?? url.searchParams.get('lastEventId');
+    const lastEventId = lastEventIdParam ? parseInt(lastEventIdParam, 10) : NaN;
 
     const now = Date.now();
     
-    // Only update status if this is a new connection
-    const isNewConnection = sseConnectionTracker.addConnection(userId);
+    // Every stream (tab, device) is tracked on its own, the status only changes with the first one
+    // Ending the session ends the stream too, the client can no longer reconnect with it
+    const { connectionId, isFirstConnection } = sseConnectionTracker.addConnection(userId, locals.session.id, () => {
+        void closeConnection('session ended');
+        try {
+            streamController?.close();
+        } catch (error) {
+            log.debug('Stream already closed', { connectionId, error });
+        }
+    });
     
-    if (isNewConnection) {
+    if (isFirstConnection) {
+        // Users with an away message come back away
+        const status = locals.user.awayMessage ? 'away' : 'online';
         try {
-            await db.update(users)
+            const user = await db.update(users)
                 .set({ 
-                    status: 'online',
+                    status,
                     lastSeen: now 
                 })
-                .where(eq(users.id, userId));
+                .where(eq(users.id, userId))
+                .returning()
+                .get();
 
-            log.info('User status updated to online', {
+            log.info('User status updated on first connection', {
                 userId: `${userId.slice(0, 4)}...${userId.slice(-4)}`,
+                status,
                 timestamp: new Date(now).toISOString()
             });
 
-            // Invalidate buddy list cache when user status changes
-            buddyListCache.invalidate();
-
-            sseEmitter.emit('sse', {
-                type: 'userStatusUpdate',
-                data: {
-                    userId,
-                    status: 'online',
-                    lastSeen: now
-                }
-            });
+            if (user) await pushPresenceDelta(createSafeUser(user), 'joined');
         } catch (error) {
             log.error('Error updating user status', { error });
-            sseConnectionTracker.removeConnection(userId);
         }
     } else {
-        log.debug('User already has active SSE connection, skipping status update', {
-            userId: `${userId.slice(0, 4)}...${userId.slice(-4)}`
+        log.debug('User already has active SSE connections, skipping status update', {
+            userId: `${userId.slice(0, 4)}...${userId.slice(-4)}`,
+            connections: sseConnectionTracker.getUserConnectionCount(userId)
         });
     }
 
+    // Called on abort and on cancel, only the first call goes through
+    let isClosed = false;
+    const closeConnection = async (reason?: unknown) => {
+        if (isClosed) return;
+        isClosed = true;
+        if (keepAliveInterval) clearInterval(keepAliveInterval);
+        if (onSSE) sseEmitter.unsubscribe(onSSE);
+        const maskedUserId = `${userId.slice(0, 4)}...${userId.slice(-4)}`;
+        log.info('Connection closed', { userId: maskedUserId, connectionId, reason });
+
+        // The user goes offline only when their last stream closes
+        if (!sseConnectionTracker.removeConnection(connectionId)) return;
+
+        try {
+            const user = await db.update(users)
+                .set({ status: 'offline', lastSeen: Date.now() })
+                .where(eq(users.id, userId))
+                .returning()
+                .get();
+            if (user) await pushPresenceDelta(createSafeUser(user), 'offline');
+        } catch (error) {
+            log.error('Error updating user status on disconnect', { userId: maskedUserId, error });
+        }
+    };
+
+    // Rooms whose events this stream should receive
+    let roomIds: string[] = [];
+    try {
+        roomIds = await getUserRoomIds(userId);
+    } catch (error) {
+        log.error('Error fetching user rooms for SSE subscription', { error });
+    }
+
+    // Every stream starts with the whole buddy list, then only gets presence deltas
+    let buddyList: BuddyList | null = null;
+    try {
+        buddyList = await getBuddyList(userId);
+    } catch (error) {
+        log.error('Error fetching buddy list for SSE connection', { error });
+    }
+
     const stream = new ReadableStream({
         start(controller) {
-            const sendEvent = (event: { type: string; data: unknown }) => {
+            streamController = controller;
+            const sendEvent = (event: { type: string; data: unknown }, eventId?: number) => {
                 try {
-                    const payload = `event: ${event.type}\n` +
+                    const payload = (eventId !== undefined ? `id: ${eventId}\n` : '') +
+                                    `event: ${event.type}\n` +
                                     `data: ${JSON.stringify(event.data)}\n\n`;
                     controller.enqueue(encoder.encode(payload));
-                    if (!['userStatusUpdate', 'chatMessage'].includes(event.type)) {
+                    if (!['presenceDelta', 'chatMessage', 'mention', 'typing'].includes(event.type)) {
                         log.info('Event sent', { type: event.type });
                     }
                 } catch (error) {
@@ -265,53 +258,42 @@ export const GET: RequestHandler = async ({ request, locals,  }) => {
                 }
             };
 
-            onSSE = (event: { type: string; data: unknown }) => {
-                sendEvent(event);
+            onSSE = (event: { type: string; data: unknown }, eventId?: number) => {
+                sendEvent(event, eventId);
             };
 
-            sseEmitter.addListener('sse', onSSE);
+            // Listen to broadcasts, events addressed to this user and to the user's rooms
+            sseEmitter.subscribe(userId, onSSE, roomIds);
             request.signal.addEventListener('abort', () => {
-                if (onSSE) {
-                    sseEmitter.removeListener('sse', onSSE);
-                    log.info('Removed listener due to abort signal');
-                }
+                log.info('Closing connection due to abort signal');
+                void closeConnection('aborted');
             });
             log.info('Added new listener');
 
             controller.enqueue(encoder.encode('data: Connected\n\n'));
+            if (buddyList) {
+                sendEvent({ type: 'buddyListUpdate', data: buddyList });
+            }
+
+            // Subscribing and replaying happen in the same tick, so no event falls in between
+            if (!Number.isNaN(lastEventId) && !sseEmitter.replay(onSSE, lastEventId)) {
+                log.info('Replay not possible, asking client to resync', { lastEventId });
+                sendEvent({ type: 'resyncRequired', data: { lastEventId } });
+            }
 
             keepAliveInterval = setInterval(() => {
-                controller.enqueue(encoder.encode(':\n\n'));
+                try {
+                    controller.enqueue(encoder.encode(':\n\n'));
+                    // A successful write means the stream is still open
+                    sseConnectionTracker.updateActivity(connectionId);
+                } catch (error) {
+                    log.debug('Keep-alive failed, closing connection', { connectionId, error });
+                    void closeConnection('keep-alive failed');
+                }
             }, 20000);
         },
         async cancel(reason) {
-            if (keepAliveInterval) clearInterval(keepAliveInterval);
-            if (onSSE) sseEmitter.removeListener('sse', onSSE);
-            const maskedUserId = `${userId.slice(0, 4)}...${userId.slice(-4)}`;
-            log.info('Connection closed', { userId: maskedUserId, reason });
-
-            // Remove from connection tracker
-            const wasTracked = sseConnectionTracker.removeConnection(userId);
-            
-            // Only update database if this was the last connection
-            if (wasTracked && !sseConnectionTracker.hasConnection(userId)) {
-                const now = Date.now();
-                await db.update(users)
-                    .set({ status: 'offline', lastSeen: now })
-                    .where(eq(users.id, userId));
-                
-                // Invalidate buddy list cache when user goes offline
-                buddyListCache.invalidate();
-                
-                sseEmitter.emit('sse', { 
-                    type: 'userStatusUpdate', 
-                    data: { 
-                        userId, 
-                        status: 'offline', 
-                        lastSeen: now 
-                    } 
-                });
-            }
+            await closeConnection(reason);
         }
     });
 
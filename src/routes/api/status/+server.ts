@@ -1,16 +1,18 @@
 import db from '$lib/db/db.server';
 import { users } from '$lib/db/schema';
 import { eq } from 'drizzle-orm/sql';
-import { validateSessionToken, generateSessionToken, createSession } from '$lib/api/session.server';
-import { setSessionTokenCookie } from '$lib/api/session.cookie';
 import { createSafeUser } from '$lib/types/chat';
 import { createLogger } from '$lib/utils/logger.server';
-import { buddyListCache } from '$lib/buddyListCache';
+import { sseConnectionTracker } from '$lib/sseConnectionTracker';
+import { pushPresenceDelta } from '$lib/utils/buddies.server';
+import { resetAwayReplies } from '$lib/utils/presence.server';
+import { applyContentFilter } from '$lib/utils/content-filter.server';
+import { statusUpdateSchema } from '$lib/validation/status';
 import type { RequestHandler } from './$types';
 
 const log = createLogger('status-server');
 
-export const POST: RequestHandler = async ({ request, cookies, locals }) => {
+export const POST: RequestHandler = async ({ request, locals }) => {
     if (!locals.user) {
         log.warn('Authentication required');
         return new Response(JSON.stringify({ success: false, error: 'Unauthorized' }), {
@@ -19,19 +21,58 @@ export const POST: RequestHandler = async ({ request, cookies, locals }) => {
         });
     }
 
+    let body: unknown;
     try {
-        const { status } = await request.json();
-        const validStatuses = ['online', 'away', 'busy', 'offline'];
-        if (!validStatuses.includes(status)) {
-            log.warn('Invalid status received', { status });
-            return new Response(JSON.stringify({ success: false, error: 'Invalid status' }), {
-                status: 400,
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return new Response(JSON.stringify({ success: false, error: 'Invalid JSON' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    const parsed = statusUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+        log.warn('Invalid status update received', { error: parsed.error.issues[0]?.message });
+        return new Response(JSON.stringify({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid status' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    try {
+        let { statusMessage, awayMessage } = parsed.data;
+        const userId = locals.user.id;
+        const maskedUserId = `${userId.slice(0, 4)}...${userId.slice(-4)}`;
+
+        // Status and away messages are shown to other users like messages: rejected ones are refused,
+        // masked parts are replaced. They are not messages, so flag rules do not apply.
+        const statusFilter = statusMessage ? await applyContentFilter(statusMessage) : null;
+        const awayFilter = awayMessage ? await applyContentFilter(awayMessage) : null;
+        const rejectedBy = statusFilter?.rejectedBy ?? awayFilter?.rejectedBy;
+        if (rejectedBy) {
+            log.info('Status update rejected by the content filter', { userId: maskedUserId, ruleId: rejectedBy.id });
+            return new Response(JSON.stringify({ success: false, error: 'Your message was blocked by the content filter' }), {
+                status: 422,
                 headers: { 'Content-Type': 'application/json' }
             });
         }
+        if (statusFilter) statusMessage = statusFilter.content;
+        if (awayFilter) awayMessage = awayFilter.content;
 
-        const userId = locals.user.id;
-        const maskedUserId = `${userId.slice(0, 4)}...${userId.slice(-4)}`;
+        // An away message keeps the user away: automatic online/busy updates do not override it,
+        // setting one marks the user away and clearing it brings them back online
+        const isAway = awayMessage !== undefined ? awayMessage !== null : Boolean(locals.user.awayMessage);
+        let status = parsed.data.status ?? (awayMessage !== undefined ? 'online' : locals.user.status);
+        // A closing tab reports offline, the user stays connected while other tabs or devices are open
+        if (status === 'offline' && sseConnectionTracker.getUserConnectionCount(userId) > 1) {
+            log.debug('Ignoring offline status, other connections are still open', { userId: maskedUserId });
+            status = locals.user.status === 'offline' ? 'online' : locals.user.status;
+        }
+        if (isAway && status !== 'offline') {
+            status = 'away';
+        }
         log.debug('Updating user status', { userId: maskedUserId, status });
 
         const now = Date.now();
@@ -41,40 +82,27 @@ export const POST: RequestHandler = async ({ request, cookies, locals }) => {
         const updatedUser = await db.update(users)
             .set({ 
                 status, 
-                lastSeen: now // Always update lastSeen for proper timeout detection
+                lastSeen: now, // Always update lastSeen for proper timeout detection
+                statusMessage,
+                awayMessage
             })
             .where(eq(users.id, userId))
             .returning()
             .get();
         log.debug('Database updated successfully', { userId: maskedUserId, status });
-        
-        // Invalidate buddy list cache when status changes
-        buddyListCache.invalidate();
 
-        // Renew session if status is online and session expires in less than 1 day
-        if (status === 'online') {
-            const token = cookies.get('session');
-            if (token) {
-                const result = await validateSessionToken(token);
-                if (result.session) {
-                    const remaining = result.session.expiresAt - now;
-                    const threshold = 24 * 60 * 60 * 1000; // 1 day in milliseconds
-                    if (remaining < threshold) {
-                        const newToken = generateSessionToken();
-                        const newSession = await createSession(newToken, userId);
-                        setSessionTokenCookie({ cookies }, newToken, newSession.expiresAt);
-                        log.info('Session renewed', { 
-                            userId: maskedUserId, 
-                            expiresAt: new Date(newSession.expiresAt).toISOString() 
-                        });
-                    }
-                }
-            }
+        // Reset after the update, so no reply of the previous message counts as sent for the new one
+        if (awayMessage !== undefined && awayMessage !== locals.user.awayMessage) {
+            await resetAwayReplies(userId);
         }
 
+        const safeUser = createSafeUser(updatedUser);
+        const kind = status === 'offline' ? 'offline' : locals.user.status === 'offline' ? 'joined' : 'updated';
+        await pushPresenceDelta(safeUser, kind);
+
         return new Response(JSON.stringify({ 
             success: true,
-            user: createSafeUser(updatedUser)
+            user: safeUser
         }), { 
             status: 200, 
             headers: { 'Content-Type': 'application/json' } 
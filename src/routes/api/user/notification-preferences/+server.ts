@@ -0,0 +1,116 @@
+import db from '$lib/db/db.server';
+import { userNotificationPreferences } from '$lib/db/schema';
+import type { UserNotificationPreferences as UserNotificationPreferencesRow } from '$lib/db/schema';
+import { eq } from 'drizzle-orm/sql';
+import { createLogger } from '$lib/utils/logger.server';
+import { notificationPreferencesSchema } from '$lib/validation/notifications';
+import {
+    DEFAULT_NOTIFICATION_PREFERENCES,
+    type BuddyNotificationPreferences,
+    type NotificationPreferences
+} from '$lib/types/chat';
+import type { NotificationPreferencesResponse } from '$lib/types/payloads';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('notification-preferences-server');
+
+function jsonResponse(body: NotificationPreferencesResponse, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// Convert a database row into the client-facing preferences shape
+function toNotificationPreferences(row: UserNotificationPreferencesRow): NotificationPreferences {
+    let buddies: Record<string, BuddyNotificationPreferences> = {};
+    if (row.buddySettings) {
+        try {
+            buddies = notificationPreferencesSchema.shape.buddies.parse(JSON.parse(row.buddySettings));
+        } catch (error) {
+            log.warn('Failed to parse stored buddy notification settings', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+    }
+
+    return {
+        sounds: row.sounds,
+        notifications: row.notifications,
+        buddies
+    };
+}
+
+// GET endpoint: return the saved preferences, or the defaults if none were saved yet
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user) {
+        log.warn('Authentication required');
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const maskedUserId = `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`;
+
+    try {
+        const row = await db.select()
+            .from(userNotificationPreferences)
+            .where(eq(userNotificationPreferences.userId, locals.user.id))
+            .get();
+
+        log.debug('Notification preferences fetched', { userId: maskedUserId, found: Boolean(row) });
+
+        return jsonResponse({
+            success: true,
+            preferences: row ? toNotificationPreferences(row) : { ...DEFAULT_NOTIFICATION_PREFERENCES, buddies: {} }
+        });
+    } catch (error) {
+        log.error('Error fetching notification preferences', { userId: maskedUserId, error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to fetch preferences' }, 500);
+    }
+};
+
+// PUT endpoint: validate and upsert the user's preferences
+export const PUT: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        log.warn('Authentication required');
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const maskedUserId = `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`;
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const parsed = notificationPreferencesSchema.safeParse(body);
+    if (!parsed.success) {
+        log.warn('Invalid notification preferences received', { userId: maskedUserId, error: parsed.error.issues[0]?.message });
+        return jsonResponse({ success: false, error: parsed.error.issues[0]?.message ?? 'Invalid preferences' }, 400);
+    }
+    const preferences: NotificationPreferences = parsed.data;
+
+    try {
+        const now = Date.now();
+        const values = {
+            sounds: preferences.sounds,
+            notifications: preferences.notifications,
+            buddySettings: JSON.stringify(preferences.buddies),
+            updatedAt: now
+        };
+
+        await db.insert(userNotificationPreferences)
+            .values({ userId: locals.user.id, createdAt: now, ...values })
+            .onConflictDoUpdate({
+                target: userNotificationPreferences.userId,
+                set: values
+            });
+
+        log.info('Notification preferences saved', { userId: maskedUserId, buddyOverrides: Object.keys(preferences.buddies).length });
+
+        return jsonResponse({ success: true, preferences });
+    } catch (error) {
+        log.error('Error saving notification preferences', { userId: maskedUserId, error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to save preferences' }, 500);
+    }
+};
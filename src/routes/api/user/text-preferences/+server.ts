@@ -0,0 +1,163 @@
+import db from '$lib/db/db.server';
+import { userTextPreferences } from '$lib/db/schema';
+import type { UserTextPreferences as UserTextPreferencesRow } from '$lib/db/schema';
+import { eq } from 'drizzle-orm/sql';
+import { createLogger } from '$lib/utils/logger.server';
+import { sanitizeStyleData, validateTextStyle } from '$lib/validation/text-formatting';
+import {
+    DEFAULT_TEXT_STYLE,
+    DEFAULT_USER_PREFERENCES,
+    type TextStyle,
+    type UserTextPreferences
+} from '$lib/types/text-formatting';
+import type { TextPreferencesResponse } from '$lib/types/payloads';
+import type { RequestHandler } from './$types';
+
+const log = createLogger('text-preferences-server');
+
+// Bounds mirror the inputs of the preferences modal
+const MIN_MESSAGE_LENGTH = 100;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_STYLE_PRESETS = 10;
+
+function jsonResponse(body: TextPreferencesResponse, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+// Validate every preset individually and drop the invalid ones
+function sanitizeStylePresets(presets: unknown): TextStyle[] {
+    if (!Array.isArray(presets)) return [];
+    return presets
+        .map(preset => validateTextStyle(preset))
+        .filter((preset): preset is TextStyle => preset !== null)
+        .slice(0, MAX_STYLE_PRESETS);
+}
+
+// Convert a database row into the client-facing preferences shape
+function toUserTextPreferences(row: UserTextPreferencesRow): UserTextPreferences {
+    // Rows written before default_style_data existed only carry font, size and color
+    const defaultStyle = sanitizeStyleData(row.defaultStyleData) ?? {
+        ...DEFAULT_TEXT_STYLE,
+        ...validateTextStyle({
+            fontFamily: row.defaultFontFamily,
+            fontSize: row.defaultFontSize,
+            color: row.defaultColor
+        })
+    };
+
+    let stylePresets: TextStyle[] = [];
+    if (row.stylePresets) {
+        try {
+            stylePresets = sanitizeStylePresets(JSON.parse(row.stylePresets));
+        } catch (error) {
+            log.warn('Failed to parse stored style presets', { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+    }
+
+    return {
+        defaultStyle,
+        allowFormatting: row.allowFormatting ?? DEFAULT_USER_PREFERENCES.allowFormatting,
+        maxMessageLength: row.maxMessageLength ?? DEFAULT_USER_PREFERENCES.maxMessageLength,
+        stylePresets
+    };
+}
+
+// GET endpoint: return the saved preferences, or the defaults if none were saved yet
+export const GET: RequestHandler = async ({ locals }) => {
+    if (!locals.user) {
+        log.warn('Authentication required');
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const maskedUserId = `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`;
+
+    try {
+        const row = await db.select()
+            .from(userTextPreferences)
+            .where(eq(userTextPreferences.userId, locals.user.id))
+            .get();
+
+        log.debug('Text preferences fetched', { userId: maskedUserId, found: Boolean(row) });
+
+        return jsonResponse({
+            success: true,
+            preferences: row ? toUserTextPreferences(row) : { ...DEFAULT_USER_PREFERENCES }
+        });
+    } catch (error) {
+        log.error('Error fetching text preferences', { userId: maskedUserId, error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to fetch preferences' }, 500);
+    }
+};
+
+// PUT endpoint: validate and upsert the user's preferences
+export const PUT: RequestHandler = async ({ request, locals }) => {
+    if (!locals.user) {
+        log.warn('Authentication required');
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const maskedUserId = `${locals.user.id.slice(0, 4)}...${locals.user.id.slice(-4)}`;
+
+    let body: Partial<Record<keyof UserTextPreferences, unknown>>;
+    try {
+        body = await request.json();
+    } catch {
+        log.warn('Invalid JSON payload received');
+        return jsonResponse({ success: false, error: 'Invalid JSON' }, 400);
+    }
+
+    const defaultStyle = sanitizeStyleData(body.defaultStyle);
+    if (!defaultStyle) {
+        log.warn('Invalid default style received', { userId: maskedUserId });
+        return jsonResponse({ success: false, error: 'Invalid default style' }, 400);
+    }
+
+    if (body.allowFormatting !== undefined && typeof body.allowFormatting !== 'boolean') {
+        return jsonResponse({ success: false, error: 'Invalid formatting flag' }, 400);
+    }
+
+    if (body.maxMessageLength !== undefined && typeof body.maxMessageLength !== 'number') {
+        return jsonResponse({ success: false, error: 'Invalid maximum message length' }, 400);
+    }
+
+    const preferences: UserTextPreferences = {
+        defaultStyle,
+        allowFormatting: body.allowFormatting ?? DEFAULT_USER_PREFERENCES.allowFormatting,
+        maxMessageLength: Math.max(
+            MIN_MESSAGE_LENGTH,
+            Math.min(MAX_MESSAGE_LENGTH, Math.round(body.maxMessageLength ?? DEFAULT_USER_PREFERENCES.maxMessageLength))
+        ),
+        stylePresets: sanitizeStylePresets(body.stylePresets)
+    };
+
+    try {
+        const now = Date.now();
+        const values = {
+            defaultFontFamily: defaultStyle.fontFamily,
+            defaultFontSize: defaultStyle.fontSize,
+            defaultColor: defaultStyle.color ?? DEFAULT_TEXT_STYLE.color,
+            defaultStyleData: JSON.stringify(defaultStyle),
+            allowFormatting: preferences.allowFormatting,
+            maxMessageLength: preferences.maxMessageLength,
+            stylePresets: JSON.stringify(preferences.stylePresets),
+            updatedAt: now
+        };
+
+        await db.insert(userTextPreferences)
+            .values({ userId: locals.user.id, createdAt: now, ...values })
+            .onConflictDoUpdate({
+                target: userTextPreferences.userId,
+                set: values
+            });
+
+        log.info('Text preferences saved', { userId: maskedUserId, presets: preferences.stylePresets?.length ?? 0 });
+
+        return jsonResponse({ success: true, preferences });
+    } catch (error) {
+        log.error('Error saving text preferences', { userId: maskedUserId, error: error instanceof Error ? error.message : 'Unknown error' });
+        return jsonResponse({ success: false, error: 'Failed to save preferences' }, 500);
+    }
+};
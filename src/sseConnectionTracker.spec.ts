@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { sseConnectionTracker } from '$lib/sseConnectionTracker';
+
+// The tracker is a singleton, every test removes what it added
+const opened: string[] = [];
+
+function connect(userId: string, sessionId = `session-${userId}`, close: () => void = () => {}) {
+	const result = sseConnectionTracker.addConnection(userId, sessionId, close);
+	opened.push(result.connectionId);
+	return result;
+}
+
+describe('sseConnectionTracker', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		opened.splice(0).forEach(connectionId => sseConnectionTracker.removeConnection(connectionId));
+		vi.useRealTimers();
+	});
+
+	it('keeps a user connected until their last tab closes', () => {
+		const first = connect('alice');
+		const second = connect('alice');
+		expect(first.isFirstConnection).toBe(true);
+		expect(second.isFirstConnection).toBe(false);
+		expect(sseConnectionTracker.getUserConnectionCount('alice')).toBe(2);
+
+		expect(sseConnectionTracker.removeConnection(first.connectionId)).toBe(false);
+		expect(sseConnectionTracker.hasConnection('alice')).toBe(true);
+		expect(sseConnectionTracker.removeConnection(second.connectionId)).toBe(true);
+		expect(sseConnectionTracker.hasConnection('alice')).toBe(false);
+		// Removing twice does not report the user offline again
+		expect(sseConnectionTracker.removeConnection(second.connectionId)).toBe(false);
+	});
+
+	it('counts users and streams separately', () => {
+		connect('alice');
+		connect('alice');
+		connect('bob');
+		expect(sseConnectionTracker.getConnectionCount()).toBe(3);
+		expect(sseConnectionTracker.getConnectedUserCount()).toBe(2);
+		expect(sseConnectionTracker.getActiveUserIds().sort()).toEqual(['alice', 'bob']);
+	});
+
+	it('closes every stream of a user', () => {
+		const close = vi.fn();
+		const bobClose = vi.fn();
+		connect('alice', 's1', close);
+		connect('alice', 's2', close);
+		connect('bob', 's3', bobClose);
+
+		expect(sseConnectionTracker.closeUserConnections('alice')).toBe(2);
+		expect(close).toHaveBeenCalledTimes(2);
+		expect(bobClose).not.toHaveBeenCalled();
+		expect(sseConnectionTracker.hasConnection('alice')).toBe(false);
+	});
+
+	it('closes only the streams of revoked sessions', () => {
+		const kept = vi.fn();
+		const revoked = vi.fn();
+		connect('alice', 'current', kept);
+		connect('alice', 'other', revoked);
+
+		expect(sseConnectionTracker.closeSessionConnections(['other'])).toBe(1);
+		expect(revoked).toHaveBeenCalledOnce();
+		expect(kept).not.toHaveBeenCalled();
+		expect(sseConnectionTracker.getUserConnectionCount('alice')).toBe(1);
+	});
+
+	it('drops stale streams and reports the users who lost their last one', () => {
+		const aliceTab = connect('alice');
+		connect('alice');
+		connect('bob');
+
+		vi.advanceTimersByTime(4 * 60 * 1000);
+		sseConnectionTracker.updateActivity(aliceTab.connectionId);
+		vi.advanceTimersByTime(2 * 60 * 1000);
+
+		expect(sseConnectionTracker.cleanupStaleConnections()).toEqual(['bob']);
+		expect(sseConnectionTracker.getUserConnectionCount('alice')).toBe(1);
+	});
+});
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { sseReplayBuffer } from '$lib/sseReplayBuffer';
+
+const message = (content: string) => ({ type: 'chatMessage', data: { content } });
+
+function ids(result: ReturnType<typeof sseReplayBuffer.getEventsSince>) {
+	return result.status === 'ok' ? result.events.map(event => event.id) : result.status;
+}
+
+describe('sseReplayBuffer', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		sseReplayBuffer.reset();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('replays the events of the subscribed channels after the last event id, in id order', () => {
+		sseReplayBuffer.record('room:b', 102, message('b1'));
+		sseReplayBuffer.record('room:a', 101, message('a1'));
+		sseReplayBuffer.record('room:a', 103, message('a2'));
+		sseReplayBuffer.record('room:c', 104, message('c1'));
+
+		expect(ids(sseReplayBuffer.getEventsSince(101, ['room:a', 'room:b'], 100))).toEqual([102, 103]);
+		expect(ids(sseReplayBuffer.getEventsSince(104, ['room:a', 'room:b'], 100))).toEqual([]);
+	});
+
+	it('buffers presence deltas but not typing indicators', () => {
+		sseReplayBuffer.record('user:u', 101, { type: 'presenceDelta', data: {} });
+		sseReplayBuffer.record('room:a', 102, { type: 'typing', data: {} });
+
+		expect(ids(sseReplayBuffer.getEventsSince(100, ['user:u', 'room:a'], 100))).toEqual([101]);
+		// Unbuffered events still count as seen
+		expect(ids(sseReplayBuffer.getEventsSince(102, ['room:a'], 100))).toEqual([]);
+	});
+
+	it('asks for a resync when the id is outside of what the buffer covers', () => {
+		sseReplayBuffer.record('room:a', 101, message('a1'));
+
+		expect(sseReplayBuffer.getEventsSince(101, ['room:a'], null).status).toBe('resync');
+		expect(sseReplayBuffer.getEventsSince(99, ['room:a'], 100).status).toBe('resync');
+		expect(sseReplayBuffer.getEventsSince(150, ['room:a'], 100).status).toBe('resync');
+	});
+
+	it('asks for a resync once events after the id were dropped for size', () => {
+		for (let id = 1; id <= 201; id++) {
+			sseReplayBuffer.record('room:a', id, message(`m${id}`));
+		}
+
+		expect(sseReplayBuffer.getEventsSince(0, ['room:a'], 0).status).toBe('resync');
+		expect(ids(sseReplayBuffer.getEventsSince(199, ['room:a'], 0))).toEqual([200, 201]);
+	});
+
+	it('drops expired events, then forgets idle channels for every subscriber', () => {
+		sseReplayBuffer.record('room:a', 101, message('a1'));
+		sseReplayBuffer.record('room:b', 102, message('b1'));
+
+		vi.advanceTimersByTime(6 * 60 * 1000);
+		sseReplayBuffer.prune();
+		expect(sseReplayBuffer.getEventsSince(100, ['room:a'], 100).status).toBe('resync');
+		expect(ids(sseReplayBuffer.getEventsSince(102, ['room:a'], 100))).toEqual([]);
+
+		vi.advanceTimersByTime(60 * 60 * 1000);
+		sseReplayBuffer.prune();
+		// The forgotten channels' evictions apply to channels the buffer never saw
+		expect(sseReplayBuffer.getEventsSince(101, ['room:z'], 100).status).toBe('resync');
+		expect(ids(sseReplayBuffer.getEventsSince(102, ['room:z'], 100))).toEqual([]);
+	});
+});
@@ -20,9 +20,39 @@ async function flushDatabase() {
 
     try {
         // Clear tables in correct order to respect foreign key constraints
+        console.log('Clearing SSE outbox table...');
+        await client.execute('DELETE FROM sse_outbox');
+        
+        console.log('Clearing moderation logs table...');
+        await client.execute('DELETE FROM moderation_logs');
+        
+        console.log('Clearing content rules table...');
+        await client.execute('DELETE FROM content_rules');
+        
+        console.log('Clearing sanctions table...');
+        await client.execute('DELETE FROM sanctions');
+        
+        console.log('Clearing message reports table...');
+        await client.execute('DELETE FROM message_reports');
+        
+        console.log('Clearing message revisions table...');
+        await client.execute('DELETE FROM message_revisions');
+        
         console.log('Clearing messages table...');
         await client.execute('DELETE FROM messages');
         
+        console.log('Clearing room members table...');
+        await client.execute('DELETE FROM room_members');
+        
+        console.log('Clearing notification preferences table...');
+        await client.execute('DELETE FROM user_notification_preferences');
+        
+        console.log('Clearing buddies table...');
+        await client.execute('DELETE FROM buddies');
+        
+        console.log('Clearing login failures table...');
+        await client.execute('DELETE FROM login_failures');
+        
         console.log('Clearing sessions table...');
         await client.execute('DELETE FROM sessions');
         